@@ -1,20 +1,145 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import RecorderView from './components/RecorderView';
 import RecordingsList from './components/RecordingsList';
+import RecordingDetailView from './components/RecordingDetailView';
+import SettingsView from './components/SettingsView';
+import MiniPlayer from './components/MiniPlayer';
+import UnlockScreen from './components/UnlockScreen';
+import { transcriptionQueue } from './services/TranscriptionQueueService';
+import { appLock } from './services/AppLockService';
+import { audioImporter, offerToTranscribe } from './services/AudioImportService';
+import type { ImportResult } from './services/AudioImportService';
+import { router } from './services/RouterService';
+import type { Route } from './services/RouterService';
+import { SessionRecoveryService } from './services/SessionRecoveryService';
+import { StorageService } from './services/StorageService';
 import './App.css';
 
-type View = 'recorder' | 'list';
+const sessionRecovery = new SessionRecoveryService(new StorageService());
+let recoveryOffered = false;
+
+// Offer to restore recordings interrupted by a crash, reload or closed tab
+const offerSessionRecovery = async () => {
+  if (recoveryOffered) return;
+  recoveryOffered = true;
+
+  try {
+    const sessions = await sessionRecovery.findOrphanedSessions();
+    if (sessions.length === 0) return;
+
+    const recover = window.confirm(
+      `Found ${sessions.length} unfinished recording(s) from a previous session. Recover them?`
+    );
+
+    if (recover) {
+      let recovered = 0;
+      for (const session of sessions) {
+        if (await sessionRecovery.recover(session)) recovered++;
+      }
+      alert(`Recovered ${recovered} recording(s). You can find them in your recordings list.`);
+    } else if (window.confirm('Delete the unfinished recordings permanently?')) {
+      for (const session of sessions) {
+        await sessionRecovery.discard(session);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to recover recording sessions:', error);
+  }
+};
+
+const reportImport = async ({ imported, failed }: ImportResult) => {
+  if (failed.length > 0) {
+    alert(`Could not import ${failed.join(', ')}. The audio format may not be supported.`);
+  }
+  await offerToTranscribe(imported);
+};
+
+let importingSharedFiles = false;
+
+// Import audio that was shared with the app or opened with it while it was
+// closed or locked, then offer to transcribe it
+const importSharedFiles = async () => {
+  if (importingSharedFiles || appLock.isLocked()) return;
+  importingSharedFiles = true;
+
+  try {
+    await reportImport(await audioImporter.importFromInbox());
+  } catch (error) {
+    console.error('Failed to import shared files:', error);
+  } finally {
+    importingSharedFiles = false;
+  }
+};
 
 function App() {
-  const [currentView, setCurrentView] = useState<View>('recorder');
+  const [route, setRoute] = useState<Route>(router.getRoute());
+  const [lockState, setLockState] = useState<'loading' | 'locked' | 'unlocked'>('loading');
+  const isUnlocked = lockState === 'unlocked';
+
+  // Nothing is read from storage until we know whether it needs a passphrase
+  useEffect(() => {
+    const update = () => setLockState(appLock.isLocked() ? 'locked' : 'unlocked');
+    const unsubscribe = appLock.subscribe(update);
+
+    appLock.init()
+      .catch(error => console.error('Failed to load encryption settings:', error))
+      .finally(update);
+
+    return unsubscribe;
+  }, []);
+
+  // Follow links, the back and forward buttons and deep links
+  useEffect(() => {
+    return router.subscribe(() => setRoute(router.getRoute()));
+  }, []);
+
+  useEffect(() => {
+    audioImporter.listenForIncomingFiles(reportImport);
+  }, []);
+
+  // Resume transcription jobs and recordings left over from a previous session,
+  // and pick up files that were shared while the app was closed or locked
+  useEffect(() => {
+    if (!isUnlocked) return;
+    transcriptionQueue.start();
+    offerSessionRecovery();
+    importSharedFiles();
+  }, [isUnlocked]);
+
+  if (lockState === 'loading') {
+    return <div className="app" />;
+  }
+
+  if (lockState === 'locked') {
+    return (
+      <div className="app">
+        <UnlockScreen />
+      </div>
+    );
+  }
 
   return (
     <div className="app">
-      {currentView === 'recorder' ? (
-        <RecorderView onNavigateToList={() => setCurrentView('list')} />
-      ) : (
-        <RecordingsList onNavigateBack={() => setCurrentView('recorder')} />
+      {route.name === 'recorder' && (
+        <RecorderView
+          onNavigateToList={() => router.navigate({ name: 'list' })}
+          onNavigateToSettings={() => router.navigate({ name: 'settings' })}
+        />
+      )}
+      {route.name === 'list' && (
+        <RecordingsList onNavigateBack={() => router.back()} />
+      )}
+      {route.name === 'recording' && (
+        <RecordingDetailView
+          key={route.id}
+          recordingId={route.id}
+          onNavigateBack={() => router.back({ name: 'list' })}
+        />
+      )}
+      {route.name === 'settings' && (
+        <SettingsView onNavigateBack={() => router.back()} />
       )}
+      <MiniPlayer />
     </div>
   );
 }
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { Recording } from '../types/Recording';
+
+type EditMode = 'trim' | 'split' | 'merge';
+
+interface EditRecordingDialogProps {
+  recording: Recording;
+  recordings: Recording[]; // Candidates for merging
+  currentTime: number | null; // Playback position, when this recording is playing
+  onTrim: (start: number, end: number) => void;
+  onSplit: (at: number) => void;
+  onMerge: (ids: string[]) => void;
+  onCancel: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function EditRecordingDialog({
+  recording,
+  recordings,
+  currentTime,
+  onTrim,
+  onSplit,
+  onMerge,
+  onCancel,
+}: EditRecordingDialogProps) {
+  const [mode, setMode] = useState<EditMode>('trim');
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(recording.duration);
+  const [splitAt, setSplitAt] = useState(Math.floor(recording.duration / 2));
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+  const mergeCandidates = recordings.filter(r => r.id !== recording.id);
+  const clamp = (value: number) => Math.max(0, Math.min(recording.duration, value));
+
+  const toggleMerge = (id: string) => {
+    setMergeIds(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
+  const canApply =
+    (mode === 'trim' && trimEnd - trimStart >= 1) ||
+    (mode === 'split' && splitAt >= 1 && recording.duration - splitAt >= 1) ||
+    (mode === 'merge' && mergeIds.length > 0);
+
+  const handleApply = () => {
+    // duration is rounded to whole seconds, so the end of the slider means the end of the audio
+    if (mode === 'trim') onTrim(trimStart, trimEnd >= recording.duration ? Infinity : trimEnd);
+    else if (mode === 'split') onSplit(splitAt);
+    else onMerge([recording.id, ...mergeIds]);
+  };
+
+  const renderTimeInput = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+    <>
+      <label className="organize-label" htmlFor={id}>
+        {label} ({formatTime(value)})
+      </label>
+      <div className="edit-time-row">
+        <input
+          id={id}
+          className="edit-time-range"
+          type="range"
+          min={0}
+          max={recording.duration}
+          step={0.1}
+          value={value}
+          onChange={(e) => onChange(clamp(Number(e.target.value)))}
+        />
+        {currentTime !== null && (
+          <button className="chip" onClick={() => onChange(clamp(currentTime))}>
+            Use playhead
+          </button>
+        )}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <h3 className="modal-title">Edit recording</h3>
+
+        <div className="chip-row">
+          {(['trim', 'split', 'merge'] as EditMode[]).map(option => (
+            <button
+              key={option}
+              className={`chip ${mode === option ? 'selected' : ''}`}
+              onClick={() => setMode(option)}
+            >
+              {option === 'trim' ? '✂️ Trim' : option === 'split' ? '🔪 Split' : '🔗 Merge'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'trim' && (
+          <>
+            {renderTimeInput('edit-trim-start', 'Start', trimStart, value => setTrimStart(Math.min(value, trimEnd)))}
+            {renderTimeInput('edit-trim-end', 'End', trimEnd, value => setTrimEnd(Math.max(value, trimStart)))}
+          </>
+        )}
+
+        {mode === 'split' && renderTimeInput('edit-split-at', 'Split at', splitAt, setSplitAt)}
+
+        {mode === 'merge' && (
+          mergeCandidates.length > 0 ? (
+            <div className="share-options">
+              {mergeCandidates.map(candidate => (
+                <label key={candidate.id} className="share-option">
+                  <input
+                    type="checkbox"
+                    checked={mergeIds.includes(candidate.id)}
+                    onChange={() => toggleMerge(candidate.id)}
+                  />
+                  <span>
+                    {candidate.title || candidate.date.toLocaleString()} · {formatTime(candidate.duration)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="settings-hint">There are no other recordings to merge with.</p>
+          )
+        )}
+
+        <p className="edit-note">
+          Edits are saved as new recordings; you can keep or delete the original afterwards.
+        </p>
+
+        <div className="modal-buttons">
+          <button className="modal-button cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="modal-button confirm" onClick={handleApply} disabled={!canApply}>
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
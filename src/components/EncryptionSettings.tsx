@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { appLock, MIN_PASSPHRASE_LENGTH } from '../services/AppLockService';
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+export default function EncryptionSettings() {
+  const [isEnabled, setIsEnabled] = useState(appLock.isEnabled());
+  const [autoLockMinutes, setAutoLockMinutes] = useState(appLock.getAutoLockMinutes());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    return appLock.subscribe(() => setIsEnabled(appLock.isEnabled()));
+  }, []);
+
+  const reportProgress = (verb: string) => (done: number, total: number) => {
+    setProgress(`${verb}... ${done}/${total}`);
+  };
+
+  const enableEncryption = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      alert('The passphrases do not match');
+      return;
+    }
+
+    try {
+      setProgress('Encrypting...');
+      await appLock.enable(passphrase, reportProgress('Encrypting'));
+      setPassphrase('');
+      setConfirmation('');
+      alert('Encryption is on. Keep your passphrase safe: without it your recordings cannot be recovered.');
+    } catch (error) {
+      console.error('Failed to enable encryption:', error);
+      alert(`Failed to enable encryption: ${(error as Error).message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const disableEncryption = async () => {
+    if (!window.confirm('Decrypt all recordings and store them without a passphrase?')) return;
+
+    try {
+      setProgress('Decrypting...');
+      await appLock.disable(reportProgress('Decrypting'));
+    } catch (error) {
+      console.error('Failed to disable encryption:', error);
+      alert(`Failed to disable encryption: ${(error as Error).message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const changeAutoLock = async (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    try {
+      await appLock.setAutoLockMinutes(minutes);
+    } catch (error) {
+      console.error('Failed to save auto-lock setting:', error);
+    }
+  };
+
+  return (
+    <div className="settings-card">
+      <h4 className="settings-section-title">Encryption</h4>
+
+      {progress ? (
+        <p className="settings-note">{progress}</p>
+      ) : isEnabled ? (
+        <>
+          <p className="settings-note">
+            Audio, titles, transcripts and summaries are encrypted on this device.
+          </p>
+
+          <label className="organize-label" htmlFor="settings-auto-lock">Lock automatically</label>
+          <select
+            id="settings-auto-lock"
+            className="organize-input"
+            value={autoLockMinutes}
+            onChange={(e) => changeAutoLock(Number(e.target.value))}
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? 'Never' : `After ${minutes} min without activity`}
+              </option>
+            ))}
+          </select>
+
+          <div className="modal-buttons">
+            <button className="modal-button cancel" onClick={disableEncryption}>
+              Turn off
+            </button>
+            <button className="modal-button confirm" onClick={() => appLock.lock()}>
+              🔒 Lock now
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="settings-note">
+            Protect audio, titles, transcripts and summaries with a passphrase.
+            If you forget it, your recordings cannot be recovered.
+          </p>
+
+          <label className="organize-label" htmlFor="settings-passphrase">Passphrase</label>
+          <input
+            id="settings-passphrase"
+            className="organize-input"
+            type="password"
+            autoComplete="new-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+
+          <label className="organize-label" htmlFor="settings-passphrase-confirm">Repeat passphrase</label>
+          <input
+            id="settings-passphrase-confirm"
+            className="organize-input"
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+
+          <div className="modal-buttons">
+            <button
+              className="modal-button confirm"
+              onClick={enableEncryption}
+              disabled={!passphrase || !confirmation}
+            >
+              Turn on encryption
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AudioLevel } from '../services/AudioRecorderService';
+
+interface LevelMeterProps {
+  subscribe: (listener: (level: AudioLevel) => void) => () => void;
+}
+
+type LevelWarning = 'clipping' | 'quiet' | null;
+
+const HISTORY_LENGTH = 120; // Bars kept on screen (~2s at 60fps)
+const CLIPPING_PEAK = 0.99;
+const QUIET_RMS = 0.01;
+const QUIET_AFTER_MS = 3000;
+const CLIPPING_HOLD_MS = 1500;
+
+export default function LevelMeter({ subscribe }: LevelMeterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [warning, setWarning] = useState<LevelWarning>(null);
+
+  useEffect(() => {
+    const history: number[] = new Array(HISTORY_LENGTH).fill(0);
+    let quietSince: number | null = null;
+    let lastClipAt = 0;
+    let currentWarning: LevelWarning = null;
+
+    const updateWarning = (next: LevelWarning) => {
+      if (next !== currentWarning) {
+        currentWarning = next;
+        setWarning(next);
+      }
+    };
+
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+
+      const { width, height } = canvas;
+      const barWidth = width / HISTORY_LENGTH;
+      context.clearRect(0, 0, width, height);
+
+      history.forEach((peak, index) => {
+        const barHeight = Math.max(2, peak * height);
+        context.fillStyle = peak >= CLIPPING_PEAK ? '#FF3B30' : 'rgba(255, 255, 255, 0.9)';
+        context.fillRect(index * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+      });
+    };
+
+    const unsubscribe = subscribe((level) => {
+      history.push(level.peak);
+      history.shift();
+      draw();
+
+      const now = Date.now();
+      if (level.peak >= CLIPPING_PEAK) {
+        lastClipAt = now;
+      }
+      if (level.rms < QUIET_RMS) {
+        quietSince = quietSince ?? now;
+      } else {
+        quietSince = null;
+      }
+
+      if (now - lastClipAt < CLIPPING_HOLD_MS) {
+        updateWarning('clipping');
+      } else if (quietSince !== null && now - quietSince >= QUIET_AFTER_MS) {
+        updateWarning('quiet');
+      } else {
+        updateWarning(null);
+      }
+    });
+
+    return unsubscribe;
+  }, [subscribe]);
+
+  return (
+    <div className="level-meter">
+      <canvas ref={canvasRef} className="level-meter-canvas" width={480} height={80} />
+      {warning === 'clipping' && (
+        <p className="level-warning">Input is clipping — move away from the mic or lower the gain</p>
+      )}
+      {warning === 'quiet' && (
+        <p className="level-warning">No sound detected — is the microphone muted?</p>
+      )}
+    </div>
+  );
+}
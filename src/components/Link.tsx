@@ -0,0 +1,26 @@
+import type { MouseEvent, ReactNode } from 'react';
+import { router, routePath } from '../services/RouterService';
+import type { Route } from '../services/RouterService';
+
+interface LinkProps {
+  to: Route;
+  className?: string;
+  children: ReactNode;
+}
+
+// A real link, so it can be copied or opened in a new tab, that navigates
+// inside the app on a plain click
+export default function Link({ to, className, children }: LinkProps) {
+  const navigate = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+
+    event.preventDefault();
+    router.navigate(to);
+  };
+
+  return (
+    <a href={routePath(to)} className={className} onClick={navigate}>
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,117 @@
+import { MAX_TRIM_SILENCE_SECONDS } from '../services/AudioProcessingService';
+import type { MicrophoneSettings, SilenceSettings } from '../types/Settings';
+
+interface MicrophoneSettingsDialogProps {
+  devices: MediaDeviceInfo[];
+  settings: MicrophoneSettings;
+  activeDeviceId?: string;
+  onChange: (settings: MicrophoneSettings) => void;
+  silenceSettings: SilenceSettings;
+  onSilenceChange: (settings: SilenceSettings) => void;
+  onClose: () => void;
+}
+
+const CONSTRAINT_OPTIONS: Array<{ key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }> = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const SILENCE_OPTIONS: Array<{ key: 'trimSilence' | 'skipSilenceOnPlayback'; label: string }> = [
+  { key: 'trimSilence', label: `Trim silence at start and end (recordings up to ${MAX_TRIM_SILENCE_SECONDS / 60} minutes)` },
+  { key: 'skipSilenceOnPlayback', label: 'Skip long pauses during playback' },
+];
+
+export default function MicrophoneSettingsDialog({
+  devices,
+  settings,
+  activeDeviceId,
+  onChange,
+  silenceSettings,
+  onSilenceChange,
+  onClose,
+}: MicrophoneSettingsDialogProps) {
+  const preferredMissing = !!settings.deviceId && !devices.some(device => device.deviceId === settings.deviceId);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <h3 className="modal-title">Microphone</h3>
+
+        <label className="organize-label" htmlFor="microphone-device">Input device</label>
+        <select
+          id="microphone-device"
+          className="organize-input"
+          value={settings.deviceId || ''}
+          onChange={(e) => onChange({ ...settings, deviceId: e.target.value || undefined })}
+        >
+          <option value="">System default</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Microphone ${index + 1}`}
+              {device.deviceId === activeDeviceId ? ' (in use)' : ''}
+            </option>
+          ))}
+        </select>
+
+        {preferredMissing && (
+          <p className="settings-hint">Your preferred microphone is not connected; using the default one.</p>
+        )}
+
+        <div className="share-options">
+          {CONSTRAINT_OPTIONS.map(({ key, label }) => (
+            <label key={key} className="share-option">
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+
+        <h4 className="settings-section-title">Silence</h4>
+        <div className="share-options">
+          <label className="share-option">
+            <input
+              type="checkbox"
+              checked={silenceSettings.autoStop}
+              onChange={(e) => onSilenceChange({ ...silenceSettings, autoStop: e.target.checked })}
+            />
+            <span>Stop automatically after</span>
+            <input
+              type="number"
+              className="silence-seconds-input"
+              min={5}
+              max={600}
+              value={silenceSettings.autoStopAfterSeconds}
+              disabled={!silenceSettings.autoStop}
+              onChange={(e) => onSilenceChange({
+                ...silenceSettings,
+                autoStopAfterSeconds: Math.min(600, Math.max(5, Number(e.target.value) || 5)),
+              })}
+            />
+            <span>s of silence</span>
+          </label>
+          {SILENCE_OPTIONS.map(({ key, label }) => (
+            <label key={key} className="share-option">
+              <input
+                type="checkbox"
+                checked={silenceSettings[key]}
+                onChange={(e) => onSilenceChange({ ...silenceSettings, [key]: e.target.checked })}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="modal-buttons">
+          <button className="modal-button confirm" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { audioPlayer } from '../services/AudioPlayerService';
+import PlaybackControls from './PlaybackControls';
+import Link from './Link';
+
+export default function MiniPlayer() {
+  const [recording, setRecording] = useState(audioPlayer.getCurrentRecording());
+  const [isPlaying, setIsPlaying] = useState(audioPlayer.isPlaying());
+  const [currentTime, setCurrentTime] = useState(audioPlayer.getCurrentTime());
+  const [playbackRate, setPlaybackRate] = useState(audioPlayer.getPlaybackRate());
+
+  useEffect(() => {
+    return audioPlayer.subscribe(() => {
+      setRecording(audioPlayer.getCurrentRecording());
+      setIsPlaying(audioPlayer.isPlaying());
+      setCurrentTime(audioPlayer.getCurrentTime());
+      setPlaybackRate(audioPlayer.getPlaybackRate());
+    });
+  }, []);
+
+  if (!recording) return null;
+
+  const queueLength = audioPlayer.getQueue().length;
+
+  const togglePlayback = async () => {
+    try {
+      if (isPlaying) {
+        await audioPlayer.pauseAudio();
+      } else {
+        await audioPlayer.resumeAudio();
+      }
+    } catch (error) {
+      console.error('Playback error:', error);
+    }
+  };
+
+  const changeTrack = async (direction: 'previous' | 'next') => {
+    try {
+      await (direction === 'next' ? audioPlayer.next() : audioPlayer.previous());
+    } catch (error) {
+      console.error('Playback error:', error);
+      alert('Failed to play recording');
+    }
+  };
+
+  return (
+    <div className="mini-player">
+      <div className="mini-player-header">
+        <div className="mini-player-info">
+          <Link className="mini-player-title" to={{ name: 'recording', id: recording.id }}>
+            {recording.title || 'Recording'}
+          </Link>
+          <span className="mini-player-meta">
+            {recording.date.toLocaleDateString()} {recording.date.toLocaleTimeString()}
+            {queueLength > 1 && ` · ${audioPlayer.getQueueIndex() + 1} of ${queueLength}`}
+          </span>
+        </div>
+        <button className="mini-player-close" onClick={() => audioPlayer.stopAudio()} aria-label="Stop playback">
+          ✖️
+        </button>
+      </div>
+
+      <PlaybackControls
+        currentTime={currentTime}
+        duration={audioPlayer.getDuration() || recording.duration}
+        playbackRate={playbackRate}
+        onSeek={(time) => audioPlayer.seek(time)}
+        onSkip={(seconds) => audioPlayer.skip(seconds)}
+        onRateChange={(rate) => audioPlayer.setPlaybackRate(rate)}
+      />
+
+      <div className="mini-player-buttons">
+        <button className="mini-player-button" onClick={() => changeTrack('previous')} aria-label="Previous">
+          ⏮️
+        </button>
+        <button className="mini-player-button primary" onClick={togglePlayback} aria-label={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? '⏸️' : '▶️'}
+        </button>
+        <button
+          className="mini-player-button"
+          onClick={() => changeTrack('next')}
+          disabled={!audioPlayer.hasNext()}
+          aria-label="Next"
+        >
+          ⏭️
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import type { Recording } from '../types/Recording';
+
+interface OrganizeDialogProps {
+  recording: Recording;
+  folders: string[]; // Existing folders, offered as suggestions
+  tags: string[]; // Existing tags, offered as toggles
+  onSave: (folder: string | undefined, tags: string[]) => void;
+  onCancel: () => void;
+}
+
+export default function OrganizeDialog({ recording, folders, tags, onSave, onCancel }: OrganizeDialogProps) {
+  const [folder, setFolder] = useState(recording.folder || '');
+  const [selectedTags, setSelectedTags] = useState<string[]>(recording.tags || []);
+  const [newTag, setNewTag] = useState('');
+
+  const availableTags = Array.from(new Set([...tags, ...selectedTags])).sort();
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev =>
+      prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
+    );
+  };
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (tag && !selectedTags.includes(tag)) {
+      setSelectedTags(prev => [...prev, tag]);
+    }
+    setNewTag('');
+  };
+
+  const handleSave = () => {
+    const trimmedFolder = folder.trim();
+    onSave(trimmedFolder || undefined, selectedTags);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <h3 className="modal-title">Organize recording</h3>
+
+        <label className="organize-label" htmlFor="organize-folder">Folder</label>
+        <input
+          id="organize-folder"
+          className="organize-input"
+          list="organize-folder-options"
+          placeholder="No folder"
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+        />
+        <datalist id="organize-folder-options">
+          {folders.map(name => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+
+        <label className="organize-label" htmlFor="organize-new-tag">Tags</label>
+        <div className="chip-row">
+          {availableTags.map(tag => (
+            <button
+              key={tag}
+              className={`chip ${selectedTags.includes(tag) ? 'selected' : ''}`}
+              onClick={() => toggleTag(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+        <div className="organize-new-tag">
+          <input
+            id="organize-new-tag"
+            className="organize-input"
+            placeholder="New tag"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addTag();
+            }}
+          />
+          <button className="chip" onClick={addTag} disabled={!newTag.trim()}>
+            + Add
+          </button>
+        </div>
+
+        <div className="modal-buttons">
+          <button className="modal-button cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="modal-button confirm" onClick={handleSave}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
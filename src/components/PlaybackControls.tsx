@@ -0,0 +1,65 @@
+import { PLAYBACK_RATES } from '../services/AudioPlayerService';
+
+interface PlaybackControlsProps {
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  onSeek: (time: number) => void;
+  onSkip: (seconds: number) => void;
+  onRateChange: (rate: number) => void;
+}
+
+const SKIP_SECONDS = 15;
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function PlaybackControls({
+  currentTime,
+  duration,
+  playbackRate,
+  onSeek,
+  onSkip,
+  onRateChange,
+}: PlaybackControlsProps) {
+  return (
+    <div className="playback-controls">
+      <div className="playback-progress">
+        <span className="playback-time">{formatTime(currentTime)}</span>
+        <input
+          className="playback-seek"
+          type="range"
+          min={0}
+          max={Math.max(duration, currentTime)}
+          step={0.1}
+          value={currentTime}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          aria-label="Playback position"
+        />
+        <span className="playback-time">{formatTime(duration)}</span>
+      </div>
+
+      <div className="playback-buttons">
+        <button className="playback-skip" onClick={() => onSkip(-SKIP_SECONDS)} aria-label="Back 15 seconds">
+          ⏪ 15s
+        </button>
+        <select
+          className="playback-rate"
+          value={playbackRate}
+          onChange={(e) => onRateChange(Number(e.target.value))}
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}x</option>
+          ))}
+        </select>
+        <button className="playback-skip" onClick={() => onSkip(SKIP_SECONDS)} aria-label="Forward 15 seconds">
+          15s ⏩
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,42 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { AudioRecorderService } from '../services/AudioRecorderService';
-import { TranscriptionService } from '../services/TranscriptionService';
+import type { AudioLevel } from '../services/AudioRecorderService';
+import type { TranscriptionProgress } from '../services/TranscriptionService';
+import { transcriptionQueue } from '../services/TranscriptionQueueService';
+import { audioPlayer } from '../services/AudioPlayerService';
+import { appLock } from '../services/AppLockService';
 import { StorageService } from '../services/StorageService';
+import { AudioProcessingService } from '../services/AudioProcessingService';
+import { VoiceActivityDetector } from '../services/VoiceActivityDetector';
 import type { Recording } from '../types/Recording';
+import { DEFAULT_MICROPHONE_SETTINGS, DEFAULT_SILENCE_SETTINGS } from '../types/Settings';
+import type { MicrophoneSettings, SilenceSettings } from '../types/Settings';
+import LevelMeter from './LevelMeter';
+import MicrophoneSettingsDialog from './MicrophoneSettingsDialog';
 
-const audioService = new AudioRecorderService();
 const storageService = new StorageService();
+const audioService = new AudioRecorderService(storageService);
+const audioProcessingService = new AudioProcessingService();
+
+const subscribeToLevels = (listener: (level: AudioLevel) => void) => audioService.onLevel(listener);
 
 interface RecorderViewProps {
   onNavigateToList?: () => void;
+  onNavigateToSettings?: () => void;
 }
 
-export default function RecorderView({ onNavigateToList }: RecorderViewProps) {
+export default function RecorderView({ onNavigateToList, onNavigateToSettings }: RecorderViewProps) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
-  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<TranscriptionProgress | null>(null);
+  const [showMicrophoneSettings, setShowMicrophoneSettings] = useState(false);
+  const [microphoneSettings, setMicrophoneSettings] = useState<MicrophoneSettings>(DEFAULT_MICROPHONE_SETTINGS);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [silenceSettings, setSilenceSettings] = useState<SilenceSettings>(DEFAULT_SILENCE_SETTINGS);
+  // Read when saving, which can be triggered from device and silence listeners
+  const silenceSettingsRef = useRef(silenceSettings);
 
   useEffect(() => {
     let interval: number;
@@ -30,11 +52,60 @@ export default function RecorderView({ onNavigateToList }: RecorderViewProps) {
     };
   }, [isRecording]);
 
+  // Nobody touches the screen while recording, so don't auto-lock meanwhile
+  useEffect(() => {
+    if (!isRecording) return;
+    return appLock.hold();
+  }, [isRecording]);
+
+  // Follow the background job for the last recording sent to transcription
+  useEffect(() => {
+    if (!transcribingId) return;
+
+    const update = async () => {
+      const job = await storageService.getTranscriptionJobForRecording(transcribingId);
+      if (!job || job.status === 'failed') {
+        setTranscribingId(null);
+        setTranscriptionProgress(null);
+        if (job?.lastError) {
+          alert(`Transcription Error: ${job.lastError}`);
+        }
+        return;
+      }
+      setTranscriptionProgress(transcriptionQueue.getProgress(transcribingId) || null);
+    };
+
+    update();
+    return transcriptionQueue.subscribe(update);
+  }, [transcribingId]);
+
   // Pre-initialize microphone for faster recording start
   useEffect(() => {
     const init = async () => {
+      try {
+        const saved = await storageService.getSetting<MicrophoneSettings>('microphone');
+        if (saved) {
+          setMicrophoneSettings(saved);
+          await audioService.setCaptureSettings(saved);
+        }
+      } catch (error) {
+        console.error('Failed to load microphone settings:', error);
+      }
+
+      try {
+        const savedSilence = await storageService.getSetting<SilenceSettings>('silence');
+        if (savedSilence) {
+          silenceSettingsRef.current = { ...DEFAULT_SILENCE_SETTINGS, ...savedSilence };
+          setSilenceSettings(silenceSettingsRef.current);
+        }
+      } catch (error) {
+        console.error('Failed to load silence settings:', error);
+      }
+
       try {
         await audioService.initializeMicrophone();
+        // Device labels are only exposed once permission has been granted
+        setInputDevices(await audioService.listInputDevices());
       } catch (error) {
         // Silently fail - will request permission when user clicks record
         console.log('Microphone not pre-initialized (will request on record)');
@@ -49,10 +120,39 @@ export default function RecorderView({ onNavigateToList }: RecorderViewProps) {
     };
   }, []);
 
+  const updateMicrophoneSettings = async (settings: MicrophoneSettings) => {
+    setMicrophoneSettings(settings);
+    try {
+      await storageService.saveSetting('microphone', settings);
+      await audioService.setCaptureSettings(settings);
+    } catch (error) {
+      console.error('Failed to apply microphone settings:', error);
+      alert(`Failed to switch microphone: ${(error as Error).message}`);
+    }
+  };
+
+  const updateSilenceSettings = async (settings: SilenceSettings) => {
+    silenceSettingsRef.current = settings;
+    setSilenceSettings(settings);
+    try {
+      await storageService.saveSetting('silence', settings);
+    } catch (error) {
+      console.error('Failed to save silence settings:', error);
+    }
+  };
+
+  const openMicrophoneSettings = async () => {
+    setInputDevices(await audioService.listInputDevices());
+    setShowMicrophoneSettings(true);
+  };
+
   const startRecording = async () => {
     try {
+      // Don't record the mini-player's output
+      await audioPlayer.pauseAudio();
       await audioService.startRecording();
       setIsRecording(true);
+      setIsPaused(false);
       setRecordingDuration(0);
     } catch (error: any) {
       console.error('Failed to start recording:', error);
@@ -63,22 +163,35 @@ export default function RecorderView({ onNavigateToList }: RecorderViewProps) {
 
   const stopRecording = async () => {
     try {
-      const audioBlob = await audioService.stopRecording();
+      // Read before stopping: the timer state can lag by up to a second
+      let duration = audioService.getDuration();
+      let audioBlob = await audioService.stopRecording();
       setIsRecording(false);
+      setIsPaused(false);
 
-      // Create Blob URL for playback
-      const blobUrl = URL.createObjectURL(audioBlob);
+      if (silenceSettingsRef.current.trimSilence) {
+        try {
+          const trimmed = await audioProcessingService.trimSilence(audioBlob, duration);
+          if (trimmed) {
+            audioBlob = trimmed.blob;
+            duration = Math.round(trimmed.duration);
+          }
+        } catch (error) {
+          // Keep the untrimmed audio rather than losing the recording
+          console.error('Failed to trim silence:', error);
+        }
+      }
 
       // Save recording
       const recording: Recording = {
         id: Date.now().toString(),
-        uri: blobUrl,
         audioBlob: audioBlob,
-        duration: recordingDuration,
+        duration,
         date: new Date(),
       };
 
       await storageService.saveRecording(recording);
+      await audioService.discardSession();
       setRecordingDuration(0);
 
       // Ask user if they want to transcribe
@@ -87,45 +200,49 @@ export default function RecorderView({ onNavigateToList }: RecorderViewProps) {
       );
 
       if (transcribe) {
-        await transcribeRecording(recording);
+        await transcriptionQueue.enqueue(recording.id);
+        setTranscribingId(recording.id);
       }
     } catch (error: any) {
       console.error('Failed to stop recording:', error);
       setIsRecording(false);
+      setIsPaused(false);
       const errorMessage = error?.message || 'Unknown error';
       alert(`Failed to stop recording: ${errorMessage}`);
     }
   };
 
-  const transcribeRecording = async (recording: Recording) => {
-    try {
-      setIsTranscribing(true);
-
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        alert('OpenAI API key not configured');
-        return;
-      }
-
-      if (!recording.audioBlob) {
-        alert('Audio data not available');
-        return;
+  // Rebuild the device list on plug/unplug; stop and save if the mic in use vanished
+  useEffect(() => {
+    return audioService.onDeviceChange(async (event) => {
+      if (event === 'device-lost' && (audioService.isRecording() || audioService.isPaused())) {
+        alert('The microphone was disconnected. The recording so far will be saved.');
+        await stopRecording();
       }
+      setInputDevices(await audioService.listInputDevices());
+    });
+  }, []);
 
-      const transcriptionService = new TranscriptionService(apiKey);
-      const result = await transcriptionService.transcribeAudio(recording.audioBlob);
+  // Auto-stop once the input has been silent for the configured period
+  useEffect(() => {
+    if (!isRecording || !silenceSettings.autoStop) return;
 
-      await storageService.updateRecording(recording.id, {
-        transcript: result.text,
-        isTranscribing: false,
-      });
+    const detector = new VoiceActivityDetector(silenceSettings.autoStopAfterSeconds);
+    detector.start(subscribeToLevels, stopRecording, () => audioService.isPaused());
+    return () => detector.stop();
+  }, [isRecording, silenceSettings.autoStop, silenceSettings.autoStopAfterSeconds]);
 
-      alert('Recording transcribed successfully!');
+  const togglePause = async () => {
+    try {
+      if (isPaused) {
+        await audioService.resumeRecording();
+      } else {
+        await audioService.pauseRecording();
+      }
+      setIsPaused(audioService.isPaused());
+      setRecordingDuration(audioService.getDuration());
     } catch (error) {
-      console.error('Transcription error:', error);
-      alert('Failed to transcribe recording. Please try again.');
-    } finally {
-      setIsTranscribing(false);
+      console.error('Failed to pause/resume recording:', error);
     }
   };
 
@@ -146,23 +263,65 @@ export default function RecorderView({ onNavigateToList }: RecorderViewProps) {
         </button>
       )}
 
+      {onNavigateToSettings && (
+        <button
+          className="app-settings-button"
+          onClick={onNavigateToSettings}
+          disabled={isRecording}
+        >
+          ⚙️ Settings
+        </button>
+      )}
+
+      <button
+        className="microphone-settings-button"
+        onClick={openMicrophoneSettings}
+        disabled={isRecording}
+      >
+        🎙️ Mic
+      </button>
+
       <div className="timer-container">
         <div className="timer">{formatDuration(recordingDuration)}</div>
+        {isRecording && <LevelMeter subscribe={subscribeToLevels} />}
       </div>
 
       <button
-        className={`record-button ${isRecording ? 'recording' : ''}`}
+        className={`record-button ${isRecording ? 'recording' : ''} ${isPaused ? 'paused' : ''}`}
         onClick={isRecording ? stopRecording : startRecording}
-        disabled={isTranscribing}
       >
         <div className="record-button-inner" />
       </button>
 
       <p className="instruction">
-        {isRecording ? 'Tap to stop recording' : 'Tap to start recording'}
+        {isPaused ? 'Paused — tap to stop recording' : isRecording ? 'Tap to stop recording' : 'Tap to start recording'}
       </p>
 
-      {isTranscribing && <p className="transcribing-text">Transcribing...</p>}
+      {isRecording && (
+        <button className="pause-button" onClick={togglePause}>
+          {isPaused ? '▶️ Resume' : '⏸️ Pause'}
+        </button>
+      )}
+
+      {transcribingId && (
+        <p className="transcribing-text">
+          {transcriptionProgress && transcriptionProgress.totalChunks > 1
+            ? `Transcribing chunk ${transcriptionProgress.chunk} of ${transcriptionProgress.totalChunks}...`
+            : 'Transcribing...'}
+        </p>
+      )}
+
+      {showMicrophoneSettings && (
+        <MicrophoneSettingsDialog
+          devices={inputDevices}
+          settings={microphoneSettings}
+          activeDeviceId={audioService.getActiveDeviceId()}
+          onChange={updateMicrophoneSettings}
+          silenceSettings={silenceSettings}
+          onSilenceChange={updateSilenceSettings}
+          onClose={() => setShowMicrophoneSettings(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,888 @@
+import { useState, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import { StorageService } from '../services/StorageService';
+import type { TranscriptionProgress } from '../services/TranscriptionService';
+import { transcriptionQueue } from '../services/TranscriptionQueueService';
+import { audioPlayer } from '../services/AudioPlayerService';
+import { AudioEditService } from '../services/AudioEditService';
+import { TranscriptHistoryService } from '../services/TranscriptHistoryService';
+import { SummarizationService } from '../services/SummarizationService';
+import type { SearchResult } from '../services/SearchService';
+import { TranscriptExportService, TRANSCRIPT_EXPORT_FORMATS } from '../services/TranscriptExportService';
+import type { TranscriptExportFormat } from '../services/TranscriptExportService';
+import TranscriptView from './TranscriptView';
+import Link from './Link';
+import OrganizeDialog from './OrganizeDialog';
+import EditRecordingDialog from './EditRecordingDialog';
+import TranscriptHistoryDialog from './TranscriptHistoryDialog';
+import SummaryView from './SummaryView';
+import type { Recording } from '../types/Recording';
+import type { TranscriptionJob } from '../types/TranscriptionJob';
+import type { TranscriptVersion } from '../types/TranscriptVersion';
+
+const storageService = new StorageService();
+const transcriptExportService = new TranscriptExportService();
+const audioEditService = new AudioEditService(storageService);
+const transcriptHistoryService = new TranscriptHistoryService(storageService);
+const summarizationService = new SummarizationService(storageService);
+
+const formatDate = (date: Date): string => {
+  return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
+};
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatTranscriptionStatus = (recording: Recording, job?: TranscriptionJob): string => {
+  if (job?.status === 'pending' && job.attempts > 0) {
+    return `Retrying transcription (attempt ${job.attempts + 1})...`;
+  }
+  if (job?.status === 'pending') {
+    return 'Waiting to transcribe...';
+  }
+
+  const progress: TranscriptionProgress | undefined = transcriptionQueue.getProgress(recording.id);
+  if (progress && progress.totalChunks > 1) {
+    return `Transcribing chunk ${progress.chunk} of ${progress.totalChunks}...`;
+  }
+  return 'Transcribing...';
+};
+
+interface RecordingCardProps {
+  recording: Recording;
+  job?: TranscriptionJob;
+  // Without onExpandedChange the transcript is always shown in full
+  expanded: boolean;
+  onExpandedChange?: (expanded: boolean) => void;
+  searchResult?: SearchResult;
+  linkToDetail?: boolean;
+  actions?: ReactNode; // Extra buttons next to Share
+  onChange: () => void; // The recording or the library was changed
+  onDelete: () => void; // The recording no longer exists
+}
+
+// One recording with its transcript, playback and everything that can be done
+// with it; shared by the library and the recording's own page
+export default function RecordingCard({
+  recording,
+  job,
+  expanded,
+  onExpandedChange,
+  searchResult,
+  linkToDetail = false,
+  actions,
+  onChange,
+  onDelete,
+}: RecordingCardProps) {
+  const [isCurrent, setIsCurrent] = useState(audioPlayer.getCurrentRecording()?.id === recording.id);
+  const [isPlaying, setIsPlaying] = useState(audioPlayer.isPlaying(recording.id));
+  const [playbackTime, setPlaybackTime] = useState(audioPlayer.getCurrentTime());
+  const [organizeOptions, setOrganizeOptions] = useState<{ folders: string[]; tags: string[] } | null>(null);
+  const [mergeCandidates, setMergeCandidates] = useState<Recording[] | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [transcriptDraft, setTranscriptDraft] = useState('');
+  const [transcriptVersions, setTranscriptVersions] = useState<TranscriptVersion[] | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [shareIncludeTranscript, setShareIncludeTranscript] = useState(true);
+  const [shareIncludeAudio, setShareIncludeAudio] = useState(true);
+  const [shareIncludeExport, setShareIncludeExport] = useState(false);
+  const [shareExportFormat, setShareExportFormat] = useState<TranscriptExportFormat>('srt');
+
+  // Track the shared player for button state and transcript highlighting
+  useEffect(() => {
+    return audioPlayer.subscribe(() => {
+      setIsCurrent(audioPlayer.getCurrentRecording()?.id === recording.id);
+      setIsPlaying(audioPlayer.isPlaying(recording.id));
+      setPlaybackTime(audioPlayer.getCurrentTime());
+    });
+  }, [recording.id]);
+
+  const deleteRecording = async () => {
+    const confirmed = window.confirm(
+      'Are you sure you want to delete this recording?'
+    );
+
+    if (confirmed) {
+      try {
+        if (isCurrent) {
+          await audioPlayer.stopAudio();
+        }
+        await storageService.deleteRecording(recording.id);
+        onDelete();
+      } catch (error) {
+        console.error('Failed to delete recording:', error);
+        alert('Failed to delete recording');
+      }
+    }
+  };
+
+  const loadAudio = async (recording: Recording): Promise<Recording> => ({
+    ...recording,
+    audioBlob: await storageService.getAudioBlob(recording.id),
+  });
+
+  const togglePlayback = async () => {
+    try {
+      await audioPlayer.play(recording);
+    } catch (error) {
+      console.error('Playback error:', error);
+      alert('Failed to play recording');
+    }
+  };
+
+  const seekRecording = async (time: number) => {
+    try {
+      await audioPlayer.seekTo(recording, time);
+    } catch (error) {
+      console.error('Playback error:', error);
+      alert('Failed to play recording');
+    }
+  };
+
+  const openSearchResult = async (result: SearchResult) => {
+    onExpandedChange?.(true);
+    if (result.segmentStart !== undefined) {
+      await seekRecording(result.segmentStart);
+    }
+  };
+
+  // Existing folders and tags are offered as suggestions
+  const openOrganizeDialog = async () => {
+    try {
+      setOrganizeOptions({
+        folders: await storageService.getFolders(),
+        tags: await storageService.getTags(),
+      });
+    } catch (error) {
+      console.error('Failed to load folders and tags:', error);
+      alert('Failed to load folders and tags');
+    }
+  };
+
+  const saveOrganization = async (folder: string | undefined, recordingTags: string[]) => {
+    setOrganizeOptions(null);
+    try {
+      await storageService.updateRecording(recording.id, { folder, tags: recordingTags });
+      onChange();
+    } catch (error) {
+      console.error('Failed to organize recording:', error);
+      alert('Failed to save folder and tags');
+    }
+  };
+
+  // Any other recording can be merged with this one
+  const openEditDialog = async () => {
+    try {
+      const recordings = await storageService.getAllRecordings();
+      recordings.sort((a, b) => b.date.getTime() - a.date.getTime());
+      setMergeCandidates(recordings);
+    } catch (error) {
+      console.error('Failed to load recordings:', error);
+      alert('Failed to load recordings');
+    }
+  };
+
+  // Runs an edit, then lets the user decide whether the originals are still needed
+  const applyEdit = async (originals: Recording[], edit: () => Promise<unknown>) => {
+    setMergeCandidates(null);
+    try {
+      setIsEditing(true);
+      if (originals.some(rec => rec.id === audioPlayer.getCurrentRecording()?.id)) {
+        await audioPlayer.stopAudio();
+      }
+      await edit();
+      onChange();
+    } catch (error) {
+      console.error('Failed to edit recording:', error);
+      alert(`Failed to edit recording: ${(error as Error).message}`);
+      return;
+    } finally {
+      setIsEditing(false);
+    }
+
+    const deleteOriginals = window.confirm(
+      originals.length > 1
+        ? 'Edited recording saved. Delete the original recordings?'
+        : 'Edited recording saved. Delete the original recording?'
+    );
+    if (deleteOriginals) {
+      try {
+        for (const original of originals) {
+          await storageService.deleteRecording(original.id);
+        }
+        onDelete();
+      } catch (error) {
+        console.error('Failed to delete original recording:', error);
+        alert('Failed to delete the original recording');
+      }
+    }
+  };
+
+  const startTranscriptEdit = () => {
+    setTranscriptDraft(transcriptHistoryService.getEditableText(recording));
+    setIsEditingTranscript(true);
+  };
+
+  const saveTranscriptEdit = async () => {
+    try {
+      await transcriptHistoryService.saveEdit(recording, transcriptDraft);
+      setIsEditingTranscript(false);
+      onChange();
+    } catch (error) {
+      console.error('Failed to save transcript:', error);
+      alert('Failed to save transcript');
+    }
+  };
+
+  const openTranscriptHistory = async () => {
+    try {
+      setTranscriptVersions(await transcriptHistoryService.getVersions(recording.id));
+    } catch (error) {
+      console.error('Failed to load transcript history:', error);
+      alert('Failed to load transcript history');
+    }
+  };
+
+  const revertTranscript = async (version: TranscriptVersion) => {
+    if (!window.confirm('Restore this version? The current transcript stays in the history.')) return;
+
+    try {
+      await transcriptHistoryService.revert(recording, version);
+      setTranscriptVersions(await transcriptHistoryService.getVersions(recording.id));
+      onChange();
+    } catch (error) {
+      console.error('Failed to restore transcript:', error);
+      alert('Failed to restore transcript');
+    }
+  };
+
+  const retranscribe = async () => {
+    if (!window.confirm('Transcribe this recording again? The result is added as a new version.')) return;
+
+    setTranscriptVersions(null);
+    await transcribeRecording();
+  };
+
+  const summarizeRecording = async () => {
+    if (recording.summary && !window.confirm('Replace the current summary with a new one?')) return;
+
+    try {
+      setIsSummarizing(true);
+      await summarizationService.summarizeRecording(recording);
+      onChange();
+    } catch (error) {
+      console.error('Failed to summarize recording:', error);
+      alert(`Failed to summarize: ${(error as Error).message}`);
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  const shareRecording = async () => {
+    if (recording.transcript) {
+      // Show dialog with checkboxes
+      setShareIncludeTranscript(true);
+      setShareIncludeAudio(true);
+      setShareIncludeExport(false);
+      setShowShareDialog(true);
+    } else {
+      // No transcript, just share audio
+      shareAudioFile(await loadAudio(recording));
+    }
+  };
+
+  const handleShareConfirm = async () => {
+    const selected = shareIncludeAudio ? await loadAudio(recording) : recording;
+
+    setShowShareDialog(false);
+
+    try {
+      if (!shareIncludeTranscript && !shareIncludeAudio && !shareIncludeExport) {
+        alert('Please select at least one option to share!');
+        return;
+      }
+
+      if (shareIncludeExport) {
+        // Only share the file when it's the sole selection; otherwise download it
+        // so the other share sheet keeps the user gesture
+        await shareTranscriptExport(
+          selected,
+          shareExportFormat,
+          !shareIncludeTranscript && !shareIncludeAudio
+        );
+      }
+
+      if (shareIncludeTranscript && shareIncludeAudio) {
+        await shareBoth(selected);
+      } else if (shareIncludeTranscript) {
+        await shareTranscript(selected);
+      } else if (shareIncludeAudio) {
+        await shareAudioFile(selected);
+      }
+    } catch (error: any) {
+      console.error('Share error:', error);
+      const errorMessage = error?.message || 'Unknown error';
+      alert(`Failed to share: ${errorMessage}`);
+    }
+  };
+
+  const shareAudioFile = async (recording: Recording) => {
+    try {
+      if (!recording.audioBlob) {
+        alert('Audio file not available');
+        return;
+      }
+
+      // Determine file extension and ensure proper MIME type
+      let ext: string;
+      let mimeType: string;
+
+      if (recording.audioBlob.type.includes('mp4') || recording.audioBlob.type.includes('m4a')) {
+        // Use .m4a for better WhatsApp compatibility
+        ext = 'm4a';
+        mimeType = 'audio/mp4';
+      } else if (recording.audioBlob.type.includes('ogg')) {
+        ext = 'ogg';
+        mimeType = 'audio/ogg';
+      } else {
+        // WebM fallback
+        ext = 'webm';
+        mimeType = 'audio/webm';
+      }
+
+      const fileName = `recording-${new Date(recording.date).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
+
+      const file = new File(
+        [recording.audioBlob],
+        fileName,
+        { type: mimeType }
+      );
+
+      // Check if sharing is supported
+      if (navigator.share) {
+        // First check if we can share files
+        if (navigator.canShare && navigator.canShare({ files: [file] })) {
+          try {
+            await navigator.share({
+              files: [file],
+              title: 'Voice Recording',
+            });
+            return; // Success!
+          } catch (shareErr: any) {
+            // User cancelled or share failed
+            if (shareErr.name === 'AbortError') {
+              console.log('Share cancelled by user');
+              return; // User cancelled, don't show error
+            }
+            console.error('Share failed:', shareErr);
+            throw new Error(`Cannot share: ${shareErr.message || 'File format not supported by the selected app'}`);
+          }
+        } else {
+          throw new Error('File sharing is not supported on this device/browser');
+        }
+      } else {
+        throw new Error('Web Share API is not supported on this browser');
+      }
+    } catch (error: any) {
+      console.error('Share audio error:', error);
+
+      // Fallback: download the file
+      if (!recording.audioBlob) {
+        alert(`Failed to share: ${error.message}`);
+        return;
+      }
+
+      try {
+        const ext = recording.audioBlob.type.includes('mp4') ? 'm4a' :
+                    recording.audioBlob.type.includes('ogg') ? 'ogg' : 'webm';
+        const fileName = `recording-${new Date(recording.date).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
+
+        const url = URL.createObjectURL(recording.audioBlob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        alert(`${error.message}\n\nAudio file downloaded instead: ${fileName}`);
+      } catch (downloadError) {
+        alert(`Failed to share or download: ${error.message}`);
+      }
+    }
+  };
+
+  const shareTranscript = async (recording: Recording) => {
+    try {
+      if (!recording.transcript) {
+        alert('No transcript available');
+        return;
+      }
+
+      const message = `Recording from ${formatDate(recording.date)}\n\nTranscript:\n${recording.transcript}`;
+
+      await navigator.share({
+        title: 'Recording Transcript',
+        text: message,
+      });
+    } catch (error) {
+      console.error('Share transcript error:', error);
+      // Copy to clipboard as fallback
+      navigator.clipboard.writeText(recording.transcript || '');
+      alert('Transcript copied to clipboard');
+    }
+  };
+
+  const shareTranscriptExport = async (
+    recording: Recording,
+    format: TranscriptExportFormat,
+    useShareSheet: boolean
+  ) => {
+    const exported = transcriptExportService.export(recording, format);
+    const file = new File([exported.content], exported.fileName, { type: exported.mimeType });
+
+    if (useShareSheet && navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
+      try {
+        await navigator.share({
+          files: [file],
+          title: 'Recording Transcript',
+        });
+        return;
+      } catch (shareError) {
+        if ((shareError as Error).name === 'AbortError') {
+          console.log('Share cancelled by user');
+          return;
+        }
+        console.error('Transcript file sharing failed:', shareError);
+      }
+    }
+
+    // Fallback: download the file
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exported.fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const shareBoth = async (recording: Recording) => {
+    try {
+      if (!recording.audioBlob || !recording.transcript) {
+        alert('Audio or transcript not available');
+        return;
+      }
+
+      // Determine file extension and MIME type
+      let ext: string;
+      let mimeType: string;
+
+      if (recording.audioBlob.type.includes('mp4') || recording.audioBlob.type.includes('m4a')) {
+        ext = 'm4a';
+        mimeType = 'audio/mp4';
+      } else if (recording.audioBlob.type.includes('ogg')) {
+        ext = 'ogg';
+        mimeType = 'audio/ogg';
+      } else {
+        ext = 'webm';
+        mimeType = 'audio/webm';
+      }
+
+      const fileName = `recording-${new Date(recording.date).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
+
+      const file = new File(
+        [recording.audioBlob],
+        fileName,
+        { type: mimeType }
+      );
+
+      const message = `Recording from ${formatDate(recording.date)}\n\nTranscript:\n${recording.transcript}`;
+
+      // Try to share file + text together
+      if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
+        try {
+          await navigator.share({
+            files: [file],
+            title: 'Voice Recording with Transcript',
+            text: message,
+          });
+          return; // Success!
+        } catch (shareError: any) {
+          // User cancelled
+          if (shareError.name === 'AbortError') {
+            console.log('Share cancelled by user');
+            return;
+          }
+          console.error('File sharing failed:', shareError);
+          // Fall through to fallback
+        }
+      }
+
+      // Fallback: share transcript and download audio separately
+      if (navigator.share) {
+        try {
+          await navigator.share({
+            title: 'Recording Transcript',
+            text: message,
+          });
+
+          // Also download audio file
+          const url = URL.createObjectURL(recording.audioBlob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = fileName;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+          alert('Transcript shared! Audio file downloaded separately.');
+          return;
+        } catch (fallbackError: any) {
+          if (fallbackError.name === 'AbortError') {
+            console.log('Share cancelled by user');
+            return;
+          }
+          console.error('Transcript sharing also failed:', fallbackError);
+        }
+      }
+
+      // Last resort: copy to clipboard and download
+      await navigator.clipboard.writeText(recording.transcript || '');
+      const url = URL.createObjectURL(recording.audioBlob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      alert('Sharing not available on this browser. Transcript copied to clipboard and audio file downloaded.');
+    } catch (error: any) {
+      console.error('Share both error:', error);
+      const errorMessage = error?.message || 'Unknown error';
+      alert(`Failed to share: ${errorMessage}\n\nTranscript copied to clipboard.`);
+      if (recording.transcript) {
+        await navigator.clipboard.writeText(recording.transcript);
+      }
+    }
+  };
+
+
+  const transcribeRecording = async () => {
+    try {
+      await transcriptionQueue.enqueue(recording.id);
+    } catch (error) {
+      console.error('Failed to queue transcription:', error);
+      alert('Failed to start transcription');
+    }
+  };
+
+  const cancelTranscription = async (job: TranscriptionJob) => {
+    try {
+      await transcriptionQueue.cancel(job.id);
+    } catch (error) {
+      console.error('Failed to cancel transcription:', error);
+    }
+  };
+
+  const retryTranscription = async (job: TranscriptionJob) => {
+    try {
+      await transcriptionQueue.retry(job.id);
+    } catch (error) {
+      console.error('Failed to retry transcription:', error);
+    }
+  };
+
+  return (
+    <div className="recording-item">
+      <div
+        className="recording-info"
+        onContextMenu={(e) => {
+          e.preventDefault();
+          deleteRecording();
+        }}
+      >
+        <div className="recording-header">
+          {linkToDetail ? (
+            <Link className="recording-date recording-link" to={{ name: 'recording', id: recording.id }}>
+              {formatDate(recording.date)}
+            </Link>
+          ) : (
+            <span className="recording-date">{formatDate(recording.date)}</span>
+          )}
+          <span className="recording-duration">{formatDuration(recording.duration)}</span>
+        </div>
+
+        {(recording.folder || (recording.tags && recording.tags.length > 0)) && (
+          <div className="recording-labels">
+            {recording.folder && <span className="recording-label">📁 {recording.folder}</span>}
+            {recording.tags?.map(tag => (
+              <span key={tag} className="recording-label">#{tag}</span>
+            ))}
+          </div>
+        )}
+
+        {searchResult && !expanded && (
+          <p
+            className="search-snippet"
+            onClick={() => openSearchResult(searchResult)}
+          >
+            {searchResult.snippet.map((part, index) =>
+              part.highlight ? <mark key={index}>{part.text}</mark> : part.text
+            )}
+          </p>
+        )}
+
+        {recording.transcript && !searchResult && !expanded && (
+          <p
+            className="transcript-preview"
+            onClick={() => onExpandedChange?.(true)}
+          >
+            {recording.transcript}
+          </p>
+        )}
+
+        {recording.transcript && expanded && isEditingTranscript && (
+          <>
+            <textarea
+              className="transcript-editor"
+              value={transcriptDraft}
+              onChange={(e) => setTranscriptDraft(e.target.value)}
+              rows={8}
+            />
+            {recording.segments && recording.segments.length > 0 && (
+              <p className="transcript-editor-hint">
+                One line per timed segment. Adding or removing lines drops the timings.
+              </p>
+            )}
+            <div className="transcript-actions">
+              <button className="transcript-toggle" onClick={saveTranscriptEdit}>
+                Save
+              </button>
+              <button className="transcript-toggle" onClick={() => setIsEditingTranscript(false)}>
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+
+        {recording.transcript && expanded && !isEditingTranscript && (
+          <>
+            <SummaryView
+              summary={recording.summary}
+              isGenerating={isSummarizing}
+              onGenerate={summarizeRecording}
+            />
+            {recording.segments && recording.segments.length > 0 ? (
+              <TranscriptView
+                segments={recording.segments}
+                currentTime={isCurrent ? playbackTime : null}
+                onSeek={seekRecording}
+              />
+            ) : (
+              <p className="transcript-full">{recording.transcript}</p>
+            )}
+            <div className="transcript-actions">
+              {onExpandedChange && (
+                <button
+                  className="transcript-toggle"
+                  onClick={() => onExpandedChange(false)}
+                >
+                  Show less
+                </button>
+              )}
+              <button className="transcript-toggle" onClick={startTranscriptEdit}>
+                ✏️ Edit
+              </button>
+              <button className="transcript-toggle" onClick={openTranscriptHistory}>
+                🕘 History
+              </button>
+            </div>
+          </>
+        )}
+
+        {recording.isTranscribing && (
+          <p className="transcribing-label">
+            {formatTranscriptionStatus(recording, job)}
+          </p>
+        )}
+
+        {job?.status === 'failed' && (
+          <p className="transcription-error">
+            Transcription failed: {job.lastError}
+          </p>
+        )}
+
+        {isEditing && <p className="loading">Editing audio...</p>}
+      </div>
+
+      <div className="button-row">
+        <button
+          className="play-button"
+          onClick={togglePlayback}
+        >
+          {isPlaying ? '⏸️ Pause' : '▶️ Play'}
+        </button>
+
+        <button className="share-button" onClick={shareRecording}>
+          📤 Share
+        </button>
+
+        {actions}
+
+        <button
+          className="organize-button"
+          onClick={openOrganizeDialog}
+        >
+          🏷️ Organize
+        </button>
+
+        <button
+          className="edit-button"
+          onClick={openEditDialog}
+          disabled={isEditing}
+        >
+          ✂️ Edit
+        </button>
+
+        {!recording.transcript && !job && (
+          <button
+            className="transcribe-button"
+            onClick={transcribeRecording}
+          >
+            🎯 Transcribe
+          </button>
+        )}
+
+        {job?.status === 'failed' && (
+          <button
+            className="transcribe-button"
+            onClick={() => retryTranscription(job)}
+          >
+            🔁 Retry
+          </button>
+        )}
+
+        {job && (
+          <button
+            className="cancel-button"
+            onClick={() => cancelTranscription(job)}
+          >
+            ✖️ Cancel
+          </button>
+        )}
+
+        <button
+          className="delete-button"
+          onClick={deleteRecording}
+        >
+          🗑️ Delete
+        </button>
+      </div>
+
+      {organizeOptions && (
+        <OrganizeDialog
+          recording={recording}
+          folders={organizeOptions.folders}
+          tags={organizeOptions.tags}
+          onSave={saveOrganization}
+          onCancel={() => setOrganizeOptions(null)}
+        />
+      )}
+
+      {transcriptVersions && (
+        <TranscriptHistoryDialog
+          // Start over on the newest pair when a restore adds a version
+          key={transcriptVersions.length}
+          versions={transcriptVersions}
+          diff={(from, to) => transcriptHistoryService.diff(from, to)}
+          onRevert={revertTranscript}
+          onRetranscribe={retranscribe}
+          onClose={() => setTranscriptVersions(null)}
+        />
+      )}
+
+      {mergeCandidates && (
+        <EditRecordingDialog
+          recording={recording}
+          recordings={mergeCandidates}
+          currentTime={isCurrent ? playbackTime : null}
+          onTrim={(start, end) => applyEdit([recording], () => audioEditService.trim(recording, start, end))}
+          onSplit={(at) => applyEdit([recording], () => audioEditService.split(recording, at))}
+          onMerge={(ids) => {
+            const selected = mergeCandidates.filter(r => ids.includes(r.id));
+            applyEdit(selected, () => audioEditService.merge(selected));
+          }}
+          onCancel={() => setMergeCandidates(null)}
+        />
+      )}
+
+      {/* Share Dialog */}
+      {showShareDialog && (
+        <div className="modal-overlay" onClick={() => setShowShareDialog(false)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <h3 className="modal-title">What would you like to share?</h3>
+
+            <div className="share-options">
+              <label className="share-option">
+                <input
+                  type="checkbox"
+                  checked={shareIncludeTranscript}
+                  onChange={(e) => setShareIncludeTranscript(e.target.checked)}
+                />
+                <span>Transcript</span>
+              </label>
+
+              <label className="share-option">
+                <input
+                  type="checkbox"
+                  checked={shareIncludeAudio}
+                  onChange={(e) => setShareIncludeAudio(e.target.checked)}
+                />
+                <span>Audio file</span>
+              </label>
+
+              <label className="share-option">
+                <input
+                  type="checkbox"
+                  checked={shareIncludeExport}
+                  onChange={(e) => setShareIncludeExport(e.target.checked)}
+                />
+                <span>Transcript file</span>
+                <select
+                  className="share-format-select"
+                  value={shareExportFormat}
+                  onChange={(e) => {
+                    setShareExportFormat(e.target.value as TranscriptExportFormat);
+                    setShareIncludeExport(true);
+                  }}
+                >
+                  {TRANSCRIPT_EXPORT_FORMATS.map(({ format, label }) => (
+                    <option key={format} value={format}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="modal-buttons">
+              <button className="modal-button cancel" onClick={() => setShowShareDialog(false)}>
+                Cancel
+              </button>
+              <button className="modal-button confirm" onClick={handleShareConfirm}>
+                Share
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { StorageService } from '../services/StorageService';
+import { transcriptionQueue } from '../services/TranscriptionQueueService';
+import RecordingCard from './RecordingCard';
+import type { Recording } from '../types/Recording';
+import type { TranscriptionJob } from '../types/TranscriptionJob';
+
+const storageService = new StorageService();
+
+interface RecordingDetailViewProps {
+  recordingId: string;
+  onNavigateBack?: () => void;
+}
+
+export default function RecordingDetailView({ recordingId, onNavigateBack }: RecordingDetailViewProps) {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [job, setJob] = useState<TranscriptionJob | undefined>(undefined);
+
+  const loadRecording = useCallback(async () => {
+    try {
+      setRecording((await storageService.getRecording(recordingId)) ?? null);
+      setJob(await storageService.getTranscriptionJobForRecording(recordingId));
+    } catch (error) {
+      console.error('Failed to load recording:', error);
+      alert('Failed to load recording');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordingId]);
+
+  // Load now and again whenever background transcription makes progress
+  useEffect(() => {
+    loadRecording();
+    return transcriptionQueue.subscribe(() => {
+      loadRecording();
+    });
+  }, [loadRecording]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      alert('Link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      alert('Failed to copy link');
+    }
+  };
+
+  return (
+    <div className="recordings-container">
+      <div className="header">
+        {onNavigateBack && (
+          <button className="back-button" onClick={onNavigateBack}>
+            ← Back
+          </button>
+        )}
+        <h1 className="title">{recording?.title || 'Recording'}</h1>
+      </div>
+
+      {isLoading ? (
+        <p className="loading">Loading...</p>
+      ) : !recording ? (
+        <div className="empty-container">
+          <p className="empty-text">Recording not found</p>
+          <p className="empty-subtext">It may have been deleted or exists on another device</p>
+        </div>
+      ) : (
+        <div className="recordings-list">
+          <RecordingCard
+            recording={recording}
+            job={job}
+            expanded
+            actions={
+              <button className="share-button" onClick={copyLink}>
+                🔗 Copy link
+              </button>
+            }
+            onChange={loadRecording}
+            onDelete={() => onNavigateBack?.()}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
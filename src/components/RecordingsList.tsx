@@ -1,11 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { DragEvent } from 'react';
 import { StorageService } from '../services/StorageService';
-import { TranscriptionService } from '../services/TranscriptionService';
-import { AudioPlayerService } from '../services/AudioPlayerService';
+import { transcriptionQueue } from '../services/TranscriptionQueueService';
+import { audioPlayer } from '../services/AudioPlayerService';
+import { audioImporter, isSupportedAudioFile, offerToTranscribe, SUPPORTED_AUDIO_EXTENSIONS } from '../services/AudioImportService';
+import { SearchService } from '../services/SearchService';
+import type { SearchResult } from '../services/SearchService';
+import { BackupService } from '../services/BackupService';
+import RecordingCard from './RecordingCard';
 import type { Recording } from '../types/Recording';
+import type { TranscriptionJob } from '../types/TranscriptionJob';
 
 const storageService = new StorageService();
-const audioPlayerService = new AudioPlayerService();
+const searchService = new SearchService(storageService);
+const backupService = new BackupService(storageService);
 
 interface RecordingsListProps {
   onNavigateBack?: () => void;
@@ -14,293 +22,146 @@ interface RecordingsListProps {
 export default function RecordingsList({ onNavigateBack }: RecordingsListProps) {
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [refreshing, setRefreshing] = useState(false);
-  const [playingId, setPlayingId] = useState<string | null>(null);
-  const [showShareDialog, setShowShareDialog] = useState(false);
-  const [shareRecordingId, setShareRecordingId] = useState<string | null>(null);
-  const [shareIncludeTranscript, setShareIncludeTranscript] = useState(true);
-  const [shareIncludeAudio, setShareIncludeAudio] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [transcriptionJobs, setTranscriptionJobs] = useState<Record<string, TranscriptionJob>>({});
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Record<string, SearchResult> | null>(null);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [activeFolder, setActiveFolder] = useState<string | null>(null);
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [filterIds, setFilterIds] = useState<Set<string> | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
 
   useEffect(() => {
     loadRecordings();
   }, []);
 
-  const loadRecordings = async () => {
-    try {
-      setRefreshing(true);
-      const data = await storageService.getAllRecordings();
-      // Sort by date, newest first
-      data.sort((a, b) => b.date.getTime() - a.date.getTime());
-      setRecordings(data);
-    } catch (error) {
-      console.error('Failed to load recordings:', error);
-      alert('Failed to load recordings');
-    } finally {
-      setRefreshing(false);
-    }
-  };
+  // Reflect background transcription progress, retries and results
+  useEffect(() => {
+    return transcriptionQueue.subscribe(() => {
+      loadRecordings();
+    });
+  }, []);
 
-  const deleteRecording = async (id: string) => {
-    const confirmed = window.confirm(
-      'Are you sure you want to delete this recording?'
-    );
+  // Show shared and opened files as soon as they are imported
+  useEffect(() => {
+    return audioImporter.subscribe(() => {
+      loadRecordings();
+    });
+  }, []);
+
+  // Debounced search; re-run when recordings change so results stay current
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
 
-    if (confirmed) {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
       try {
-        await storageService.deleteRecording(id);
-        await loadRecordings();
+        const results = await searchService.search(searchQuery);
+        if (!cancelled) {
+          setSearchResults(Object.fromEntries(results.map(result => [result.recording.id, result])));
+        }
       } catch (error) {
-        console.error('Failed to delete recording:', error);
-        alert('Failed to delete recording');
+        console.error('Search failed:', error);
       }
-    }
-  };
+    }, 200);
 
-  const togglePlayback = async (recording: Recording) => {
-    try {
-      if (playingId === recording.id) {
-        await audioPlayerService.stopAudio();
-        setPlayingId(null);
-      } else {
-        await audioPlayerService.playAudio(recording.uri);
-        setPlayingId(recording.id);
-      }
-    } catch (error) {
-      console.error('Playback error:', error);
-      alert('Failed to play recording');
-      setPlayingId(null);
-    }
-  };
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, recordings]);
 
-  const shareRecording = (recording: Recording) => {
-    if (recording.transcript) {
-      // Show dialog with checkboxes
-      setShareRecordingId(recording.id);
-      setShareIncludeTranscript(true);
-      setShareIncludeAudio(true);
-      setShowShareDialog(true);
-    } else {
-      // No transcript, just share audio
-      shareAudioFile(recording);
+  // Folder and tag filters; multiple tags must all be present
+  useEffect(() => {
+    if (!activeFolder && activeTags.length === 0) {
+      setFilterIds(null);
+      return;
     }
-  };
 
-  const handleShareConfirm = async () => {
-    const recording = recordings.find(r => r.id === shareRecordingId);
-    if (!recording) return;
+    let cancelled = false;
+    const applyFilter = async () => {
+      try {
+        let ids: string[] | null = activeFolder
+          ? await storageService.getRecordingIdsByFolder(activeFolder)
+          : null;
 
-    setShowShareDialog(false);
+        for (const tag of activeTags) {
+          const tagged = new Set(await storageService.getRecordingIdsByTag(tag));
+          ids = (ids ?? Array.from(tagged)).filter(id => tagged.has(id));
+        }
 
-    try {
-      if (!shareIncludeTranscript && !shareIncludeAudio) {
-        alert('Please select at least one option to share!');
-        return;
+        if (!cancelled) {
+          setFilterIds(new Set(ids ?? []));
+        }
+      } catch (error) {
+        console.error('Failed to filter recordings:', error);
       }
+    };
 
-      if (shareIncludeTranscript && shareIncludeAudio) {
-        await shareBoth(recording);
-      } else if (shareIncludeTranscript) {
-        await shareTranscript(recording);
-      } else if (shareIncludeAudio) {
-        await shareAudioFile(recording);
-      }
-    } catch (error: any) {
-      console.error('Share error:', error);
-      const errorMessage = error?.message || 'Unknown error';
-      alert(`Failed to share: ${errorMessage}`);
-    }
-  };
+    applyFilter();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeFolder, activeTags, recordings]);
 
-  const shareAudioFile = async (recording: Recording) => {
+  const loadRecordings = async () => {
     try {
-      if (!recording.audioBlob) {
-        alert('Audio file not available');
-        return;
-      }
-
-      // Determine file extension and ensure proper MIME type
-      let ext: string;
-      let mimeType: string;
-
-      if (recording.audioBlob.type.includes('mp4') || recording.audioBlob.type.includes('m4a')) {
-        // Use .m4a for better WhatsApp compatibility
-        ext = 'm4a';
-        mimeType = 'audio/mp4';
-      } else if (recording.audioBlob.type.includes('ogg')) {
-        ext = 'ogg';
-        mimeType = 'audio/ogg';
-      } else {
-        // WebM fallback
-        ext = 'webm';
-        mimeType = 'audio/webm';
-      }
-
-      const fileName = `recording-${new Date(recording.date).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
-
-      const file = new File(
-        [recording.audioBlob],
-        fileName,
-        { type: mimeType }
-      );
-
-      // Check if sharing is supported
-      if (navigator.share) {
-        // First check if we can share files
-        if (navigator.canShare && navigator.canShare({ files: [file] })) {
-          try {
-            await navigator.share({
-              files: [file],
-              title: 'Voice Recording',
-            });
-            return; // Success!
-          } catch (shareErr: any) {
-            // User cancelled or share failed
-            if (shareErr.name === 'AbortError') {
-              console.log('Share cancelled by user');
-              return; // User cancelled, don't show error
-            }
-            console.error('Share failed:', shareErr);
-            throw new Error(`Cannot share: ${shareErr.message || 'File format not supported by the selected app'}`);
-          }
-        } else {
-          throw new Error('File sharing is not supported on this device/browser');
-        }
-      } else {
-        throw new Error('Web Share API is not supported on this browser');
-      }
-    } catch (error: any) {
-      console.error('Share audio error:', error);
+      setRefreshing(true);
+      const data = await storageService.getAllRecordings();
+      // Sort by date, newest first
+      data.sort((a, b) => b.date.getTime() - a.date.getTime());
+      setRecordings(data);
 
-      // Fallback: download the file
-      if (!recording.audioBlob) {
-        alert(`Failed to share: ${error.message}`);
-        return;
-      }
+      setFolders(await storageService.getFolders());
+      setTags(await storageService.getTags());
 
-      try {
-        const ext = recording.audioBlob.type.includes('mp4') ? 'm4a' :
-                    recording.audioBlob.type.includes('ogg') ? 'ogg' : 'webm';
-        const fileName = `recording-${new Date(recording.date).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
-
-        const url = URL.createObjectURL(recording.audioBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = fileName;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
-        alert(`${error.message}\n\nAudio file downloaded instead: ${fileName}`);
-      } catch (downloadError) {
-        alert(`Failed to share or download: ${error.message}`);
-      }
+      const jobs = await transcriptionQueue.getJobs();
+      setTranscriptionJobs(Object.fromEntries(jobs.map(job => [job.recordingId, job])));
+    } catch (error) {
+      console.error('Failed to load recordings:', error);
+      alert('Failed to load recordings');
+    } finally {
+      setRefreshing(false);
     }
   };
 
-  const shareTranscript = async (recording: Recording) => {
+  // Everything currently shown, back to back in the order it was recorded
+  const playAll = async () => {
     try {
-      if (!recording.transcript) {
-        alert('No transcript available');
-        return;
-      }
-
-      const message = `Recording from ${formatDate(recording.date)}\n\nTranscript:\n${recording.transcript}`;
-
-      await navigator.share({
-        title: 'Recording Transcript',
-        text: message,
-      });
+      await audioPlayer.playQueue(visibleRecordings);
     } catch (error) {
-      console.error('Share transcript error:', error);
-      // Copy to clipboard as fallback
-      navigator.clipboard.writeText(recording.transcript || '');
-      alert('Transcript copied to clipboard');
+      console.error('Playback error:', error);
+      alert('Failed to play recordings');
     }
   };
 
-  const shareBoth = async (recording: Recording) => {
-    try {
-      if (!recording.audioBlob || !recording.transcript) {
-        alert('Audio or transcript not available');
-        return;
-      }
-
-      // Determine file extension and MIME type
-      let ext: string;
-      let mimeType: string;
-
-      if (recording.audioBlob.type.includes('mp4') || recording.audioBlob.type.includes('m4a')) {
-        ext = 'm4a';
-        mimeType = 'audio/mp4';
-      } else if (recording.audioBlob.type.includes('ogg')) {
-        ext = 'ogg';
-        mimeType = 'audio/ogg';
-      } else {
-        ext = 'webm';
-        mimeType = 'audio/webm';
-      }
-
-      const fileName = `recording-${new Date(recording.date).toISOString().slice(0, 19).replace(/:/g, '-')}.${ext}`;
-
-      const file = new File(
-        [recording.audioBlob],
-        fileName,
-        { type: mimeType }
-      );
+  const toggleFolderFilter = (folder: string) => {
+    setActiveFolder(prev => (prev === folder ? null : folder));
+  };
 
-      const message = `Recording from ${formatDate(recording.date)}\n\nTranscript:\n${recording.transcript}`;
-
-      // Try to share file + text together
-      if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
-        try {
-          await navigator.share({
-            files: [file],
-            title: 'Voice Recording with Transcript',
-            text: message,
-          });
-          return; // Success!
-        } catch (shareError: any) {
-          // User cancelled
-          if (shareError.name === 'AbortError') {
-            console.log('Share cancelled by user');
-            return;
-          }
-          console.error('File sharing failed:', shareError);
-          // Fall through to fallback
-        }
-      }
+  const toggleTagFilter = (tag: string) => {
+    setActiveTags(prev =>
+      prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
+    );
+  };
 
-      // Fallback: share transcript and download audio separately
-      if (navigator.share) {
-        try {
-          await navigator.share({
-            title: 'Recording Transcript',
-            text: message,
-          });
-
-          // Also download audio file
-          const url = URL.createObjectURL(recording.audioBlob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = fileName;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-          alert('Transcript shared! Audio file downloaded separately.');
-          return;
-        } catch (fallbackError: any) {
-          if (fallbackError.name === 'AbortError') {
-            console.log('Share cancelled by user');
-            return;
-          }
-          console.error('Transcript sharing also failed:', fallbackError);
-        }
-      }
+  // Exports what is currently shown, so search and filters double as a selection
+  const backupLibrary = async (ids?: string[]) => {
+    try {
+      setIsBackingUp(true);
+      const archive = await backupService.exportLibrary(ids);
+      const fileName = `voicetranscriber-backup-${new Date().toISOString().slice(0, 10)}.zip`;
 
-      // Last resort: copy to clipboard and download
-      await navigator.clipboard.writeText(recording.transcript || '');
-      const url = URL.createObjectURL(recording.audioBlob);
+      const url = URL.createObjectURL(archive);
       const a = document.createElement('a');
       a.href = url;
       a.download = fileName;
@@ -308,79 +169,100 @@ export default function RecordingsList({ onNavigateBack }: RecordingsListProps)
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
-      alert('Sharing not available on this browser. Transcript copied to clipboard and audio file downloaded.');
-    } catch (error: any) {
-      console.error('Share both error:', error);
-      const errorMessage = error?.message || 'Unknown error';
-      alert(`Failed to share: ${errorMessage}\n\nTranscript copied to clipboard.`);
-      if (recording.transcript) {
-        await navigator.clipboard.writeText(recording.transcript);
-      }
+    } catch (error) {
+      console.error('Backup failed:', error);
+      alert(`Backup failed: ${(error as Error).message}`);
+    } finally {
+      setIsBackingUp(false);
     }
   };
 
-  const transcribeRecording = async (recording: Recording) => {
+  const restoreLibrary = async (file: File) => {
     try {
-      // Update UI to show transcribing state
-      await storageService.updateRecording(recording.id, {
-        isTranscribing: true,
-      });
+      setIsBackingUp(true);
+      const result = await backupService.importLibrary(file);
       await loadRecordings();
-
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        await storageService.updateRecording(recording.id, {
-          isTranscribing: false,
-        });
-        await loadRecordings();
-        alert('OpenAI API key not configured');
-        return;
-      }
-
-      if (!recording.audioBlob) {
-        await storageService.updateRecording(recording.id, {
-          isTranscribing: false,
-        });
-        await loadRecordings();
-        alert('Audio data not available');
-        return;
+      alert(
+        `Restored ${result.imported} recording(s).` +
+        (result.skipped > 0 ? `\n${result.skipped} already in your library were skipped.` : '')
+      );
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert(`Restore failed: ${(error as Error).message}`);
+    } finally {
+      setIsBackingUp(false);
+      if (restoreInputRef.current) {
+        restoreInputRef.current.value = '';
       }
+    }
+  };
 
-      const transcriptionService = new TranscriptionService(apiKey);
-      const result = await transcriptionService.transcribeAudio(recording.audioBlob);
-
-      await storageService.updateRecording(recording.id, {
-        transcript: result.text,
-        isTranscribing: false,
-      });
+  const importAudioFiles = async (files: File[]) => {
+    const supported = files.filter(isSupportedAudioFile);
+    const unsupported = files.filter(file => !isSupportedAudioFile(file));
 
-      await loadRecordings();
-      alert('Recording transcribed successfully!');
-    } catch (error: any) {
-      console.error('Transcription error:', error);
+    try {
+      setIsImporting(true);
+      const { imported, failed } = supported.length > 0
+        ? await audioImporter.importFiles(supported)
+        : { imported: [], failed: [] };
+
+      const skipped = [...unsupported, ...supported.filter(file => failed.includes(file.name))];
+      if (skipped.length > 0) {
+        alert(`Could not import ${skipped.map(file => file.name).join(', ')}. They are not audio files or their format is not supported.`);
+      }
+      await offerToTranscribe(imported);
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert(`Import failed: ${(error as Error).message}`);
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
 
-      await storageService.updateRecording(recording.id, {
-        isTranscribing: false,
-      });
-      await loadRecordings();
+  const handleDragOver = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
 
-      const errorMessage = error.message || 'Unknown error';
-      alert(`Transcription Error: ${errorMessage}`);
+  const handleDragLeave = (event: DragEvent) => {
+    // Leaving for a child element still counts as over the list
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
     }
   };
 
-  const formatDate = (date: Date): string => {
-    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
+  const handleDrop = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    // Same as the disabled import button: one batch at a time
+    if (isImporting) return;
+    importAudioFiles(Array.from(event.dataTransfer.files));
   };
 
-  const formatDuration = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+  const visibleRecordings = recordings.filter(r =>
+    (!searchResults || searchResults[r.id]) && (!filterIds || filterIds.has(r.id))
+  );
 
   return (
-    <div className="recordings-container">
+    <div
+      className="recordings-container"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="drop-overlay">
+          <p className="drop-overlay-text">🎵 Drop audio files to import them</p>
+        </div>
+      )}
+
       <div className="header">
         {onNavigateBack && (
           <button className="back-button" onClick={onNavigateBack}>
@@ -388,69 +270,124 @@ export default function RecordingsList({ onNavigateBack }: RecordingsListProps)
           </button>
         )}
         <h1 className="title">Recordings</h1>
+
+        <div className="library-actions">
+          <button
+            className="library-action"
+            onClick={playAll}
+            disabled={visibleRecordings.length === 0}
+          >
+            ▶️ {searchResults || filterIds ? 'Play shown' : 'Play all'}
+          </button>
+          <button
+            className="library-action"
+            onClick={() => backupLibrary(searchResults || filterIds ? visibleRecordings.map(r => r.id) : undefined)}
+            disabled={isBackingUp || visibleRecordings.length === 0}
+          >
+            💾 {searchResults || filterIds ? 'Back up shown' : 'Back up all'}
+          </button>
+          <button
+            className="library-action"
+            onClick={() => restoreInputRef.current?.click()}
+            disabled={isBackingUp}
+          >
+            📥 Restore
+          </button>
+          <button
+            className="library-action"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            🎵 Import audio
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={['audio/*', ...SUPPORTED_AUDIO_EXTENSIONS].join(',')}
+            multiple
+            hidden
+            onChange={(e) => importAudioFiles(Array.from(e.target.files ?? []))}
+          />
+          <input
+            ref={restoreInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) restoreLibrary(file);
+            }}
+          />
+        </div>
+
+        <input
+          className="search-input"
+          type="search"
+          placeholder="Search transcripts and titles"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+
+        {(folders.length > 0 || tags.length > 0) && (
+          <div className="chip-row filter-chips">
+            <button
+              className={`chip ${!activeFolder && activeTags.length === 0 ? 'selected' : ''}`}
+              onClick={() => {
+                setActiveFolder(null);
+                setActiveTags([]);
+              }}
+            >
+              All
+            </button>
+            {folders.map(folder => (
+              <button
+                key={`folder-${folder}`}
+                className={`chip ${activeFolder === folder ? 'selected' : ''}`}
+                onClick={() => toggleFolderFilter(folder)}
+              >
+                📁 {folder}
+              </button>
+            ))}
+            {tags.map(tag => (
+              <button
+                key={`tag-${tag}`}
+                className={`chip ${activeTags.includes(tag) ? 'selected' : ''}`}
+                onClick={() => toggleTagFilter(tag)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {refreshing && <p className="loading">Loading...</p>}
+      {isImporting && <p className="loading">Importing audio...</p>}
 
-      {recordings.length === 0 && !refreshing ? (
+      {(searchResults || filterIds) && recordings.length > 0 && visibleRecordings.length === 0 && !refreshing ? (
+        <div className="empty-container">
+          <p className="empty-text">No matches</p>
+          <p className="empty-subtext">Try fewer words or clear the filters</p>
+        </div>
+      ) : recordings.length === 0 && !refreshing ? (
         <div className="empty-container">
           <p className="empty-text">No recordings yet</p>
-          <p className="empty-subtext">Start recording to see your recordings here</p>
+          <p className="empty-subtext">Start recording or drop audio files here to see your recordings</p>
         </div>
       ) : (
         <div className="recordings-list">
-          {recordings.map((recording) => (
-            <div key={recording.id} className="recording-item">
-              <div
-                className="recording-info"
-                onContextMenu={(e) => {
-                  e.preventDefault();
-                  deleteRecording(recording.id);
-                }}
-              >
-                <div className="recording-header">
-                  <span className="recording-date">{formatDate(recording.date)}</span>
-                  <span className="recording-duration">{formatDuration(recording.duration)}</span>
-                </div>
-
-                {recording.transcript && (
-                  <p className="transcript-preview">{recording.transcript}</p>
-                )}
-
-                {recording.isTranscribing && (
-                  <p className="transcribing-label">Transcribing...</p>
-                )}
-              </div>
-
-              <div className="button-row">
-                <button
-                  className="play-button"
-                  onClick={() => togglePlayback(recording)}
-                >
-                  {playingId === recording.id ? '⏸️ Pause' : '▶️ Play'}
-                </button>
-
-                <button className="share-button" onClick={() => shareRecording(recording)}>
-                  📤 Share
-                </button>
-
-                {!recording.transcript && !recording.isTranscribing && (
-                  <button
-                    className="transcribe-button"
-                    onClick={() => transcribeRecording(recording)}
-                  >
-                    🎯 Transcribe
-                  </button>
-                )}
-
-                <button
-                  className="delete-button"
-                  onClick={() => deleteRecording(recording.id)}
-                >
-                  🗑️ Delete
-                </button>
-              </div>
-            </div>
+          {visibleRecordings.map((recording) => (
+            <RecordingCard
+              key={recording.id}
+              recording={recording}
+              job={transcriptionJobs[recording.id]}
+              expanded={expandedId === recording.id}
+              onExpandedChange={(expanded) => setExpandedId(expanded ? recording.id : null)}
+              searchResult={searchResults?.[recording.id]}
+              linkToDetail
+              onChange={loadRecordings}
+              onDelete={loadRecordings}
+            />
           ))}
         </div>
       )}
@@ -458,44 +395,6 @@ export default function RecordingsList({ onNavigateBack }: RecordingsListProps)
       <button className="refresh-button" onClick={loadRecordings} disabled={refreshing}>
         🔄 Refresh
       </button>
-
-      {/* Share Dialog */}
-      {showShareDialog && (
-        <div className="modal-overlay" onClick={() => setShowShareDialog(false)}>
-          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-            <h3 className="modal-title">What would you like to share?</h3>
-
-            <div className="share-options">
-              <label className="share-option">
-                <input
-                  type="checkbox"
-                  checked={shareIncludeTranscript}
-                  onChange={(e) => setShareIncludeTranscript(e.target.checked)}
-                />
-                <span>Transcript</span>
-              </label>
-
-              <label className="share-option">
-                <input
-                  type="checkbox"
-                  checked={shareIncludeAudio}
-                  onChange={(e) => setShareIncludeAudio(e.target.checked)}
-                />
-                <span>Audio file</span>
-              </label>
-            </div>
-
-            <div className="modal-buttons">
-              <button className="modal-button cancel" onClick={() => setShowShareDialog(false)}>
-                Cancel
-              </button>
-              <button className="modal-button confirm" onClick={handleShareConfirm}>
-                Share
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   );
 }
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { StorageService } from '../services/StorageService';
+import { SettingsService } from '../services/SettingsService';
+import type { ApiSettings } from '../types/Settings';
+import EncryptionSettings from './EncryptionSettings';
+
+const settingsService = new SettingsService(new StorageService());
+
+interface SettingsViewProps {
+  onNavigateBack?: () => void;
+}
+
+type ConnectionStatus = { ok: boolean; message: string } | null;
+
+export default function SettingsView({ onNavigateBack }: SettingsViewProps) {
+  const [settings, setSettings] = useState<ApiSettings | null>(null);
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(null);
+
+  useEffect(() => {
+    settingsService.getApiSettings()
+      .then(setSettings)
+      .catch(error => {
+        console.error('Failed to load settings:', error);
+        alert('Failed to load settings');
+      });
+  }, []);
+
+  if (!settings) {
+    return (
+      <div className="settings-container">
+        <p className="loading">Loading...</p>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<ApiSettings>) => {
+    setSettings({ ...settings, ...changes });
+    setErrors([]);
+    setConnectionStatus(null);
+  };
+
+  const saveSettings = async () => {
+    const validationErrors = settingsService.validateApiSettings(settings);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    try {
+      setIsSaving(true);
+      await settingsService.saveApiSettings(settings);
+      alert('Settings saved');
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      alert(`Failed to save settings: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const testConnection = async () => {
+    try {
+      setIsTesting(true);
+      setConnectionStatus(null);
+      await settingsService.testConnection(settings);
+      setConnectionStatus({ ok: true, message: 'Connected successfully' });
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      setConnectionStatus({ ok: false, message: (error as Error).message });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="settings-container">
+      <div className="header">
+        {onNavigateBack && (
+          <button className="back-button" onClick={onNavigateBack}>
+            ← Back
+          </button>
+        )}
+        <h1 className="title">Settings</h1>
+      </div>
+
+      <div className="settings-card">
+        <h4 className="settings-section-title">Transcription</h4>
+
+        <label className="organize-label" htmlFor="settings-provider">Provider</label>
+        <select
+          id="settings-provider"
+          className="organize-input"
+          value={settings.providerId}
+          onChange={(e) => update({ providerId: e.target.value })}
+        >
+          <option value="openai">OpenAI</option>
+          <option value="openai-compatible">OpenAI-compatible server</option>
+        </select>
+
+        {settings.providerId === 'openai-compatible' && (
+          <>
+            <label className="organize-label" htmlFor="settings-base-url">Server URL</label>
+            <input
+              id="settings-base-url"
+              className="organize-input"
+              type="url"
+              placeholder="http://localhost:8000/v1"
+              value={settings.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+            />
+          </>
+        )}
+
+        <label className="organize-label" htmlFor="settings-api-key">
+          API key{settings.providerId === 'openai-compatible' && ' (optional)'}
+        </label>
+        <div className="settings-inline">
+          <input
+            id="settings-api-key"
+            className="organize-input"
+            type={showApiKey ? 'text' : 'password'}
+            autoComplete="off"
+            value={settings.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+          />
+          <button className="chip" onClick={() => setShowApiKey(!showApiKey)}>
+            {showApiKey ? 'Hide' : 'Show'}
+          </button>
+        </div>
+        <p className="settings-note">Stored only on this device.</p>
+
+        <label className="organize-label" htmlFor="settings-model">Model</label>
+        <input
+          id="settings-model"
+          className="organize-input"
+          placeholder="whisper-1"
+          value={settings.model}
+          onChange={(e) => update({ model: e.target.value })}
+        />
+
+        <label className="organize-label" htmlFor="settings-language">Language</label>
+        <input
+          id="settings-language"
+          className="organize-input"
+          placeholder="Detect automatically (or e.g. en, de)"
+          maxLength={2}
+          value={settings.language}
+          onChange={(e) => update({ language: e.target.value })}
+        />
+
+        <label className="organize-label" htmlFor="settings-prompt">Prompt</label>
+        <textarea
+          id="settings-prompt"
+          className="organize-input settings-textarea"
+          placeholder="Names, acronyms and terms that often come up"
+          rows={3}
+          value={settings.prompt}
+          onChange={(e) => update({ prompt: e.target.value })}
+        />
+
+        <h4 className="settings-section-title">Summaries</h4>
+
+        <label className="organize-label" htmlFor="settings-summary-url">Chat completions server URL</label>
+        <input
+          id="settings-summary-url"
+          className="organize-input"
+          type="url"
+          placeholder="Same as transcription"
+          value={settings.summaryBaseUrl}
+          onChange={(e) => update({ summaryBaseUrl: e.target.value })}
+        />
+
+        <label className="organize-label" htmlFor="settings-summary-api-key">API key (optional)</label>
+        <div className="settings-inline">
+          <input
+            id="settings-summary-api-key"
+            className="organize-input"
+            type={showApiKey ? 'text' : 'password'}
+            autoComplete="off"
+            placeholder="Same as transcription"
+            value={settings.summaryApiKey}
+            onChange={(e) => update({ summaryApiKey: e.target.value })}
+          />
+          <button className="chip" onClick={() => setShowApiKey(!showApiKey)}>
+            {showApiKey ? 'Hide' : 'Show'}
+          </button>
+        </div>
+        <p className="settings-note">The transcription key is only reused when summaries go to the same server.</p>
+
+        <label className="organize-label" htmlFor="settings-summary-model">Model</label>
+        <input
+          id="settings-summary-model"
+          className="organize-input"
+          placeholder="gpt-4o-mini"
+          value={settings.summaryModel}
+          onChange={(e) => update({ summaryModel: e.target.value })}
+        />
+
+        {errors.length > 0 && (
+          <ul className="settings-errors">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {connectionStatus && (
+          <p className={`settings-connection ${connectionStatus.ok ? 'ok' : 'failed'}`}>
+            {connectionStatus.ok ? '✅' : '⚠️'} {connectionStatus.message}
+          </p>
+        )}
+
+        <div className="modal-buttons">
+          <button className="modal-button cancel" onClick={testConnection} disabled={isTesting}>
+            {isTesting ? 'Testing...' : 'Test connection'}
+          </button>
+          <button className="modal-button confirm" onClick={saveSettings} disabled={isSaving}>
+            Save
+          </button>
+        </div>
+      </div>
+
+      <EncryptionSettings />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import type { RecordingSummary } from '../types/Recording';
+
+interface SummaryViewProps {
+  summary?: RecordingSummary;
+  isGenerating: boolean;
+  onGenerate: () => void;
+}
+
+export default function SummaryView({ summary, isGenerating, onGenerate }: SummaryViewProps) {
+  if (!summary) {
+    return (
+      <button className="transcript-toggle" onClick={onGenerate} disabled={isGenerating}>
+        {isGenerating ? 'Summarizing...' : '✨ Summarize'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="summary-view">
+      {summary.overview && <p className="summary-overview">{summary.overview}</p>}
+
+      {summary.keyPoints.length > 0 && (
+        <>
+          <h4 className="summary-heading">Key points</h4>
+          <ul className="summary-list">
+            {summary.keyPoints.map((point, index) => (
+              <li key={index}>{point}</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {summary.actionItems.length > 0 && (
+        <>
+          <h4 className="summary-heading">Action items</h4>
+          <ul className="summary-list action-items">
+            {summary.actionItems.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="summary-footer">
+        <span className="summary-meta">
+          {summary.model} · {new Date(summary.generatedAt).toLocaleString()}
+        </span>
+        <button className="transcript-toggle" onClick={onGenerate} disabled={isGenerating}>
+          {isGenerating ? 'Summarizing...' : '🔄 Regenerate'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import type { DiffPart } from '../services/TranscriptHistoryService';
+import type { TranscriptVersion } from '../types/TranscriptVersion';
+
+interface TranscriptHistoryDialogProps {
+  versions: TranscriptVersion[]; // Oldest first; the last one is current
+  diff: (from: string, to: string) => DiffPart[];
+  onRevert: (version: TranscriptVersion) => void;
+  onRetranscribe: () => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<TranscriptVersion['source'], string> = {
+  machine: 'Transcription',
+  manual: 'Manual edit',
+  revert: 'Restored',
+};
+
+export default function TranscriptHistoryDialog({
+  versions,
+  diff,
+  onRevert,
+  onRetranscribe,
+  onClose,
+}: TranscriptHistoryDialogProps) {
+  const latest = versions.length - 1;
+  const [fromIndex, setFromIndex] = useState(Math.max(0, latest - 1));
+  const [toIndex, setToIndex] = useState(latest);
+
+  const formatVersion = (version: TranscriptVersion, index: number): string =>
+    `${index + 1}. ${SOURCE_LABELS[version.source]} · ${new Date(version.createdAt).toLocaleString()}`;
+
+  const parts = versions.length > 1 ? diff(versions[fromIndex].text, versions[toIndex].text) : [];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <h3 className="modal-title">Transcript history</h3>
+
+        {versions.length === 0 && (
+          <p className="settings-hint">No earlier versions yet.</p>
+        )}
+
+        <div className="transcript-versions">
+          {versions.map((version, index) => (
+            <div key={version.id} className="transcript-version">
+              <span className="transcript-version-label">
+                {formatVersion(version, index)}
+                {index === latest && ' (current)'}
+              </span>
+              {index !== latest && (
+                <button className="chip" onClick={() => onRevert(version)}>
+                  Restore
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {versions.length > 1 && (
+          <>
+            <div className="transcript-diff-select">
+              <select
+                className="organize-input"
+                value={fromIndex}
+                onChange={(e) => setFromIndex(Number(e.target.value))}
+                aria-label="Compare from"
+              >
+                {versions.map((version, index) => (
+                  <option key={version.id} value={index}>{formatVersion(version, index)}</option>
+                ))}
+              </select>
+              <span>→</span>
+              <select
+                className="organize-input"
+                value={toIndex}
+                onChange={(e) => setToIndex(Number(e.target.value))}
+                aria-label="Compare to"
+              >
+                {versions.map((version, index) => (
+                  <option key={version.id} value={index}>{formatVersion(version, index)}</option>
+                ))}
+              </select>
+            </div>
+
+            <p className="transcript-diff">
+              {parts.map((part, index) =>
+                part.type === 'added' ? <ins key={index}>{part.text}</ins>
+                  : part.type === 'removed' ? <del key={index}>{part.text}</del>
+                  : <span key={index}>{part.text}</span>
+              )}
+            </p>
+          </>
+        )}
+
+        <div className="modal-buttons">
+          <button className="modal-button cancel" onClick={onRetranscribe}>
+            🔁 Re-transcribe
+          </button>
+          <button className="modal-button confirm" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import type { TranscriptSegment } from '../types/Recording';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  currentTime: number | null; // null when this recording is not playing
+  onSeek: (time: number) => void;
+}
+
+export default function TranscriptView({ segments, currentTime, onSeek }: TranscriptViewProps) {
+  const activeRef = useRef<HTMLSpanElement | null>(null);
+
+  const activeIndex = currentTime === null
+    ? -1
+    : segments.findIndex(segment => currentTime >= segment.start && currentTime < segment.end);
+
+  // Keep the active segment visible while playing
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const formatTimestamp = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="transcript-view">
+      {segments.map((segment, index) => (
+        <span
+          key={`${segment.start}-${index}`}
+          ref={index === activeIndex ? activeRef : undefined}
+          className={`transcript-segment ${index === activeIndex ? 'active' : ''}`}
+          title={formatTimestamp(segment.start)}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSeek(segment.start);
+          }}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </div>
+  );
+}
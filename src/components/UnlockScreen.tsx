@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { appLock } from '../services/AppLockService';
+import { audioImporter } from '../services/AudioImportService';
+
+export default function UnlockScreen() {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [waitingFiles, setWaitingFiles] = useState(0);
+
+  // Shared files cannot be encrypted before the key is available
+  useEffect(() => {
+    const countWaitingFiles = () => {
+      audioImporter.countWaitingFiles()
+        .then(setWaitingFiles)
+        .catch(error => console.error('Failed to check for shared files:', error));
+    };
+
+    countWaitingFiles();
+    return audioImporter.subscribe(countWaitingFiles);
+  }, []);
+
+  const unlock = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+
+    try {
+      setIsUnlocking(true);
+      setError(null);
+      await appLock.unlock(passphrase);
+    } catch (error) {
+      console.error('Failed to unlock:', error);
+      setError((error as Error).message);
+      setIsUnlocking(false);
+    }
+  };
+
+  const resetLibrary = async () => {
+    const confirmed = window.confirm(
+      'Without the passphrase your recordings cannot be decrypted. Delete all recordings and turn off encryption?'
+    );
+    if (!confirmed || !window.confirm('This cannot be undone. Delete everything?')) return;
+
+    try {
+      await appLock.reset();
+    } catch (error) {
+      console.error('Failed to reset:', error);
+      alert('Failed to delete recordings');
+    }
+  };
+
+  return (
+    <div className="recorder-container">
+      <img src="/logo.svg" alt="VoiceTranscriber Logo" className="logo" />
+      <h1 className="title">VoiceTranscriber</h1>
+
+      <form className="unlock-card" onSubmit={unlock}>
+        <label className="organize-label" htmlFor="unlock-passphrase">
+          🔒 Enter your passphrase to open your recordings
+        </label>
+        <input
+          id="unlock-passphrase"
+          className="organize-input"
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+
+        {waitingFiles > 0 && (
+          <p className="settings-note">
+            📥 {waitingFiles} shared file(s) will be imported when you unlock. Until then they are stored unencrypted on this device.
+          </p>
+        )}
+
+        {error && <p className="settings-connection failed">{error}</p>}
+
+        <button className="modal-button confirm" type="submit" disabled={isUnlocking || !passphrase}>
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+
+      <button className="unlock-forgot" onClick={resetLibrary}>
+        Forgot passphrase?
+      </button>
+    </div>
+  );
+}
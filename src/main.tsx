@@ -2,6 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { audioPlayer } from './services/AudioPlayerService'
+import { MediaSessionService } from './services/MediaSessionService'
+
+// Created once for the whole app so lock-screen controls work from any view
+new MediaSessionService(audioPlayer)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,174 @@
+import { StorageService } from './StorageService';
+import { encryption } from './EncryptionService';
+import { audioPlayer } from './AudioPlayerService';
+import { DEFAULT_LOCK_SETTINGS } from '../types/Settings';
+import type { EncryptionConfig } from './EncryptionService';
+import type { LockSettings } from '../types/Settings';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const LOCK_SETTINGS_KEY = 'lock';
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+// Tells other open tabs when encryption is turned on or off
+const ENCRYPTION_CHANNEL = 'encryption-config';
+
+// Connects passphrase encryption to the app: unlocking on start, locking after
+// a period without user activity, and converting stored data when the feature
+// is turned on or off.
+export class AppLockService {
+  private storage: StorageService;
+  private settings: LockSettings = DEFAULT_LOCK_SETTINGS;
+  private ready: Promise<void> | null = null;
+  private lastActivity = Date.now();
+  private holds = 0;
+  private channel = new BroadcastChannel(ENCRYPTION_CHANNEL);
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  // Notified when the app is locked or unlocked, or encryption is turned on or off
+  subscribe(listener: () => void): () => void {
+    return encryption.subscribe(listener);
+  }
+
+  // Load the encryption setting; safe to call more than once
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load();
+    }
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    encryption.configure(await this.storage.getEncryptionConfig());
+    const saved = await this.storage.getSetting<LockSettings>(LOCK_SETTINGS_KEY);
+    this.settings = { ...DEFAULT_LOCK_SETTINGS, ...saved };
+
+    const markActive = () => {
+      this.lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    // The config is only read once per page, so another tab has to announce
+    // changes; otherwise this one would keep writing plaintext
+    this.channel.onmessage = ({ data: config }: MessageEvent<EncryptionConfig | null>) => {
+      // A new data key: unlock again with the passphrase chosen in the other tab
+      if (config) this.lock();
+      encryption.configure(config);
+    };
+
+    // Timers are throttled in background tabs, so check again when the app is shown
+    document.addEventListener('visibilitychange', () => this.checkIdle());
+    window.setInterval(() => this.checkIdle(), IDLE_CHECK_INTERVAL_MS);
+  }
+
+  isEnabled(): boolean {
+    return encryption.isEnabled();
+  }
+
+  isLocked(): boolean {
+    return encryption.isLocked();
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    await encryption.unlock(passphrase);
+    this.lastActivity = Date.now();
+
+    // Finish converting records if the app was closed while turning encryption on
+    if (await this.storage.isEncryptionMigrationPending()) {
+      await this.migrate();
+    }
+  }
+
+  lock(): void {
+    if (!encryption.isEnabled()) return;
+
+    // Decrypted audio must not outlive the key
+    audioPlayer.stopAudio();
+    this.storage.revokeAudioUrls();
+    encryption.lock();
+  }
+
+  async enable(passphrase: string, onProgress?: (done: number, total: number) => void): Promise<void> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const config = await encryption.enable(passphrase);
+    await this.storage.saveEncryptionConfig(config);
+    this.channel.postMessage(config);
+    await this.migrate(onProgress);
+  }
+
+  async disable(onProgress?: (done: number, total: number) => void): Promise<void> {
+    encryption.disable();
+    this.channel.postMessage(null);
+    await this.migrate(onProgress);
+
+    // Only forget the wrapped key once nothing is encrypted with it any more
+    await this.storage.saveEncryptionConfig(null);
+    encryption.lock();
+  }
+
+  // Converting a large library can outlast the auto-lock timeout, and
+  // locking halfway would leave records that can no longer be converted
+  private async migrate(onProgress?: (done: number, total: number) => void): Promise<void> {
+    const release = this.hold();
+    try {
+      await this.storage.migrateEncryption(onProgress);
+    } finally {
+      release();
+    }
+  }
+
+  // For a forgotten passphrase: encrypted data cannot be recovered, only removed
+  async reset(): Promise<void> {
+    await this.storage.clearAll();
+    for (const session of await this.storage.getAllSessions()) {
+      await this.storage.deleteSession(session.id);
+    }
+    await this.storage.saveEncryptionConfig(null);
+    encryption.disable();
+    this.channel.postMessage(null);
+  }
+
+  getAutoLockMinutes(): number {
+    return this.settings.autoLockMinutes;
+  }
+
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    this.settings = { ...this.settings, autoLockMinutes: minutes };
+    this.lastActivity = Date.now();
+    await this.storage.saveSetting(LOCK_SETTINGS_KEY, this.settings);
+  }
+
+  // Keep the app unlocked while work runs without user input, e.g. a recording.
+  // Returns a function that releases the hold.
+  hold(): () => void {
+    this.holds++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.holds--;
+      this.lastActivity = Date.now();
+    };
+  }
+
+  private checkIdle(): void {
+    if (!encryption.isEnabled() || encryption.isLocked() || this.settings.autoLockMinutes === 0) return;
+
+    if (this.holds > 0 || audioPlayer.isPlaying()) {
+      this.lastActivity = Date.now();
+      return;
+    }
+
+    if (Date.now() - this.lastActivity >= this.settings.autoLockMinutes * 60 * 1000) {
+      this.lock();
+    }
+  }
+}
+
+export const appLock = new AppLockService(new StorageService());
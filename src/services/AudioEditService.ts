@@ -0,0 +1,156 @@
+import { StorageService } from './StorageService';
+import { AudioProcessingService, EDIT_SAMPLE_RATE } from './AudioProcessingService';
+import type { Recording, TranscriptSegment } from '../types/Recording';
+
+// Edits never touch the source recording: each one decodes the audio, cuts it and saves
+// the result as a new recording, so the caller decides when to delete the original
+export class AudioEditService {
+  private storage: StorageService;
+  private processing = new AudioProcessingService();
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  // Keep only the audio between start and end (seconds); an end of Infinity keeps the rest
+  async trim(recording: Recording, start: number, end: number): Promise<Recording> {
+    const samples = await this.decode(recording);
+    const from = this.toSampleIndex(start, samples.length);
+    const to = this.toSampleIndex(end, samples.length);
+    if (to - from < EDIT_SAMPLE_RATE) {
+      throw new Error('The trimmed recording must be at least one second long');
+    }
+
+    const trimmed = this.createRecording(recording, samples.subarray(from, to), start, end, {
+      id: this.createId(),
+      title: `${recording.title || 'Recording'} (trimmed)`,
+      date: recording.date,
+    });
+    await this.storage.saveRecording(trimmed);
+    return trimmed;
+  }
+
+  // Cut a recording in two at the given position (seconds)
+  async split(recording: Recording, at: number): Promise<[Recording, Recording]> {
+    const samples = await this.decode(recording);
+    const index = this.toSampleIndex(at, samples.length);
+    if (index < EDIT_SAMPLE_RATE || samples.length - index < EDIT_SAMPLE_RATE) {
+      throw new Error('Both parts must be at least one second long');
+    }
+
+    const baseId = this.createId();
+    const title = recording.title || 'Recording';
+    const first = this.createRecording(recording, samples.subarray(0, index), 0, at, {
+      id: baseId,
+      title: `${title} (part 1)`,
+      date: recording.date,
+    });
+    // Ids are timestamps, so offset the second one to keep them unique
+    const second = this.createRecording(recording, samples.subarray(index), at, Infinity, {
+      id: (Number(baseId) + 1).toString(),
+      title: `${title} (part 2)`,
+      date: new Date(recording.date.getTime() + at * 1000),
+    });
+
+    await this.storage.saveRecording(first);
+    await this.storage.saveRecording(second);
+    return [first, second];
+  }
+
+  // Join recordings end to end, oldest first
+  async merge(recordings: Recording[]): Promise<Recording> {
+    if (recordings.length < 2) {
+      throw new Error('Select at least two recordings to merge');
+    }
+
+    const ordered = [...recordings].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const parts: Float32Array[] = [];
+    for (const recording of ordered) {
+      parts.push(await this.decode(recording));
+    }
+
+    const merged = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+    const segments: TranscriptSegment[] = [];
+    const transcripts: string[] = [];
+    let offset = 0;
+
+    parts.forEach((part, index) => {
+      merged.set(part, offset);
+      const offsetSeconds = offset / EDIT_SAMPLE_RATE;
+      ordered[index].segments?.forEach(segment => {
+        segments.push({ ...segment, start: segment.start + offsetSeconds, end: segment.end + offsetSeconds });
+      });
+      const transcript = ordered[index].transcript;
+      if (transcript) {
+        transcripts.push(transcript.trim());
+      }
+      offset += part.length;
+    });
+
+    // Segments only line up if every part had them
+    const allSegmented = ordered.every(rec => !rec.transcript || (rec.segments && rec.segments.length > 0));
+    const first = ordered[0];
+    const result: Recording = {
+      id: this.createId(),
+      audioBlob: this.processing.encodeWav(merged, EDIT_SAMPLE_RATE),
+      duration: Math.round(merged.length / EDIT_SAMPLE_RATE),
+      date: first.date,
+      title: 'Merged recording',
+      folder: first.folder,
+      tags: Array.from(new Set(ordered.flatMap(rec => rec.tags || []))),
+      transcript: transcripts.length > 0 ? transcripts.join('\n\n') : undefined,
+      segments: allSegmented && segments.length > 0 ? segments : undefined,
+    };
+
+    await this.storage.saveRecording(result);
+    return result;
+  }
+
+  private async decode(recording: Recording): Promise<Float32Array> {
+    const audioBlob = recording.audioBlob || await this.storage.getAudioBlob(recording.id);
+    if (!audioBlob) {
+      throw new Error('Audio data not available');
+    }
+    return this.processing.decodeToMono(audioBlob, EDIT_SAMPLE_RATE);
+  }
+
+  private createRecording(
+    source: Recording,
+    samples: Float32Array,
+    start: number,
+    end: number,
+    fields: Pick<Recording, 'id' | 'title' | 'date'>
+  ): Recording {
+    const segments = source.segments ? this.cutSegments(source.segments, start, end) : undefined;
+
+    return {
+      ...fields,
+      audioBlob: this.processing.encodeWav(samples, EDIT_SAMPLE_RATE),
+      duration: Math.round(samples.length / EDIT_SAMPLE_RATE),
+      folder: source.folder,
+      tags: source.tags,
+      // Without timings there's no way to tell which words survive the cut
+      transcript: segments ? segments.map(segment => segment.text.trim()).join(' ') || undefined : undefined,
+      segments: segments && segments.length > 0 ? segments : undefined,
+    };
+  }
+
+  // Keep segments overlapping [start, end), clipped to the range and shifted to start at zero
+  private cutSegments(segments: TranscriptSegment[], start: number, end: number): TranscriptSegment[] {
+    return segments
+      .filter(segment => segment.end > start && segment.start < end)
+      .map(segment => ({
+        text: segment.text,
+        start: Math.max(segment.start, start) - start,
+        end: Math.min(segment.end, end) - start,
+      }));
+  }
+
+  private toSampleIndex(seconds: number, length: number): number {
+    return Math.max(0, Math.min(length, Math.round(seconds * EDIT_SAMPLE_RATE)));
+  }
+
+  private createId(): string {
+    return Date.now().toString();
+  }
+}
@@ -0,0 +1,205 @@
+import { StorageService } from './StorageService';
+import { AudioProcessingService } from './AudioProcessingService';
+import { ShareInboxService, SHARED_FILES_MESSAGE } from './ShareInboxService';
+import type { SharedFilesMessage, SharedFilesReply } from './ShareInboxService';
+import { transcriptionQueue } from './TranscriptionQueueService';
+import { appLock } from './AppLockService';
+import type { Recording } from '../types/Recording';
+
+export type ImportResult = {
+  imported: Recording[];
+  failed: string[]; // Names of files that could not be decoded or saved
+}
+
+// The File Handling API is not in TypeScript's DOM types yet
+type LaunchParams = {
+  files: readonly FileSystemHandle[];
+}
+
+type WindowWithLaunchQueue = Window & {
+  launchQueue?: {
+    setConsumer(consumer: (params: LaunchParams) => void): void;
+  };
+}
+
+// Some platforms hand over files without a type
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
+const INBOX_LOCK_NAME = 'share-inbox';
+
+export const SUPPORTED_AUDIO_EXTENSIONS = Object.keys(MIME_TYPES_BY_EXTENSION).map(ext => `.${ext}`);
+
+// Audio types, plus known extensions since .webm and .ogg files are often typed as video
+export function isSupportedAudioFile(file: File): boolean {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return file.type.startsWith('audio/') || Object.hasOwn(MIME_TYPES_BY_EXTENSION, extension);
+}
+
+// Turns audio files from outside the app into recordings
+export class AudioImportService {
+  private storage: StorageService;
+  private audioProcessing = new AudioProcessingService();
+  private inbox = new ShareInboxService();
+  private listeners = new Set<() => void>();
+  private listening = false;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  // Notified after recordings were imported and when files start waiting in the inbox
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  async importFiles(files: File[]): Promise<ImportResult> {
+    const result: ImportResult = { imported: [], failed: [] };
+
+    for (const file of files) {
+      await this.tryImport(file, result);
+    }
+
+    if (result.imported.length > 0) this.notify();
+    return result;
+  }
+
+  // Import whatever the share sheet or the file handlers left in the inbox, or
+  // only the given files
+  async importFromInbox(keys?: string[]): Promise<ImportResult> {
+    const result: ImportResult = { imported: [], failed: [] };
+
+    await this.holdInbox(async () => {
+      for (const key of keys ?? await this.inbox.keys()) {
+        // Gone if another window imported it first
+        const file = await this.inbox.get(key);
+        if (file) await this.tryImport(file, result);
+        // Failed files are dropped as well; they would fail the same way next time
+        await this.inbox.remove(key);
+      }
+    });
+
+    if (result.imported.length > 0) this.notify();
+    return result;
+  }
+
+  // Files that wait, unencrypted, for the app to be unlocked
+  async countWaitingFiles(): Promise<number> {
+    return (await this.inbox.keys()).length;
+  }
+
+  // Files shared with the app (via the service worker) or opened with it (via
+  // the launch queue) go straight into storage while the app is unlocked, and
+  // wait in the inbox for the unlock screen otherwise
+  listenForIncomingFiles(onImported: (result: ImportResult) => void): void {
+    if (this.listening) return;
+    this.listening = true;
+
+    navigator.serviceWorker?.addEventListener('message', async (event: MessageEvent<SharedFilesMessage>) => {
+      if (event.data?.type !== SHARED_FILES_MESSAGE) return;
+      const reply = (answer: SharedFilesReply) => event.ports[0]?.postMessage(answer);
+
+      if (appLock.isLocked()) {
+        reply('declined');
+        // The files are waiting in the inbox now
+        this.notify();
+        return;
+      }
+
+      reply('accepted');
+      try {
+        onImported(await this.importFromInbox(event.data.keys));
+      } catch (error) {
+        console.error('Failed to receive shared files:', error);
+      }
+    });
+    // Deliver messages the service worker sent while the page was starting
+    navigator.serviceWorker?.startMessages();
+
+    const launchQueue = (window as WindowWithLaunchQueue).launchQueue;
+
+    launchQueue?.setConsumer(async ({ files }) => {
+      const handles = files.filter((handle): handle is FileSystemFileHandle => handle.kind === 'file');
+      if (handles.length === 0) return;
+
+      try {
+        const opened = await Promise.all(handles.map(handle => handle.getFile()));
+        if (appLock.isLocked()) {
+          await this.inbox.add(opened);
+          this.notify();
+        } else {
+          onImported(await this.importFiles(opened));
+        }
+      } catch (error) {
+        console.error('Failed to receive opened files:', error);
+      }
+    });
+  }
+
+  // Windows take turns importing from the inbox, so no file is imported twice
+  private async holdInbox(task: () => Promise<void>): Promise<void> {
+    if (!navigator.locks) return task();
+    await navigator.locks.request(INBOX_LOCK_NAME, task);
+  }
+
+  private async tryImport(file: File, result: ImportResult): Promise<void> {
+    try {
+      result.imported.push(await this.importFile(file));
+    } catch (error) {
+      console.error(`Failed to import ${file.name}:`, error);
+      result.failed.push(file.name);
+    }
+  }
+
+  // Titled after the file and dated by its modification time. Random IDs, since
+  // imports can overlap each other and recordings made meanwhile.
+  private async importFile(file: File): Promise<Recording> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const type = file.type || MIME_TYPES_BY_EXTENSION[extension] || 'audio/mpeg';
+    const audioBlob = file.type ? file : new Blob([file], { type });
+
+    const duration = await this.audioProcessing.getDuration(audioBlob);
+
+    const recording: Recording = {
+      id: crypto.randomUUID(),
+      audioBlob,
+      duration: Math.round(duration),
+      date: new Date(file.lastModified || Date.now()),
+      title: file.name.replace(/\.[^.]+$/, '') || file.name,
+    };
+
+    await this.storage.saveRecording(recording);
+    return recording;
+  }
+}
+
+export const audioImporter = new AudioImportService(new StorageService());
+
+// Imported audio has no transcript yet; ask before spending API calls on it
+export async function offerToTranscribe(imported: Recording[]): Promise<void> {
+  if (imported.length === 0) return;
+
+  const transcribe = window.confirm(
+    `Imported ${imported.length} recording(s). Would you like to transcribe them now?`
+  );
+  if (!transcribe) return;
+
+  for (const recording of imported) {
+    await transcriptionQueue.enqueue(recording.id);
+  }
+}
@@ -1,40 +1,183 @@
+import type { Recording, TimeRange } from '../types/Recording';
+import { StorageService } from './StorageService';
+import { PlaybackService } from './PlaybackService';
+
+// Keep a little of each pause so speech doesn't run together
+const SILENCE_SKIP_MARGIN = 0.25;
+const POSITION_SAVE_INTERVAL_MS = 1000;
+// "Previous" restarts the current recording unless it has only just begun
+const RESTART_THRESHOLD_SECONDS = 3;
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+export type LoadedTrack = {
+  uri: string;
+  startAt?: number; // Seconds
+  silentRanges?: TimeRange[]; // Jumped over while playing
+}
+
+// Where the player gets audio from and remembers positions
+export interface TrackSource {
+  load(recording: Recording): Promise<LoadedTrack>;
+  savePosition(recordingId: string, position: number): Promise<void>;
+  getPlaybackRate(): Promise<number | undefined>;
+  savePlaybackRate(rate: number): Promise<void>;
+}
+
 export class AudioPlayerService {
+  private source: TrackSource;
   private audio: HTMLAudioElement | null = null;
-  private currentUri: string | null = null;
+  private queue: Recording[] = [];
+  private queueIndex = -1;
+  private silentRanges: TimeRange[] = [];
+  private playbackRate = 1;
+  private positionSavedAt = 0;
+  private listeners = new Set<() => void>();
 
-  async playAudio(uri: string): Promise<void> {
-    try {
-      // If playing the same file, just resume
-      if (this.currentUri === uri && this.audio) {
-        if (this.audio.paused) {
-          await this.audio.play();
-        } else {
-          this.audio.pause();
-        }
-        return;
+  constructor(source: TrackSource) {
+    this.source = source;
+
+    this.source.getPlaybackRate()
+      .then(rate => {
+        if (rate) this.applyPlaybackRate(rate);
+      })
+      .catch(error => console.error('Failed to load playback speed:', error));
+  }
+
+  // Notified on play, pause, time updates, track changes and stop
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Play a single recording, or toggle pause if it is already loaded
+  async play(recording: Recording): Promise<void> {
+    if (this.getCurrentRecording()?.id === recording.id && this.audio) {
+      if (this.audio.paused) {
+        await this.audio.play();
+      } else {
+        this.audio.pause();
       }
+      return;
+    }
+
+    await this.playQueue([recording]);
+  }
+
+  // Play recordings back to back, oldest first
+  async playQueue(recordings: Recording[], startId?: string): Promise<void> {
+    const ordered = [...recordings].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const startIndex = startId ? ordered.findIndex(rec => rec.id === startId) : 0;
+
+    // Release first so the outgoing recording's position is saved under the right id
+    this.releaseAudio();
+    this.queue = ordered;
+    await this.playAt(Math.max(0, startIndex));
+  }
 
+  async next(): Promise<void> {
+    if (this.hasNext()) {
+      await this.playAt(this.queueIndex + 1);
+    }
+  }
+
+  async previous(): Promise<void> {
+    if (this.getCurrentTime() > RESTART_THRESHOLD_SECONDS || !this.hasPrevious()) {
+      this.seek(0);
+      return;
+    }
+    await this.playAt(this.queueIndex - 1);
+  }
+
+  hasNext(): boolean {
+    return this.queueIndex >= 0 && this.queueIndex < this.queue.length - 1;
+  }
+
+  hasPrevious(): boolean {
+    return this.queueIndex > 0;
+  }
+
+  getQueue(): Recording[] {
+    return this.queue;
+  }
+
+  getQueueIndex(): number {
+    return this.queueIndex;
+  }
+
+  getCurrentRecording(): Recording | null {
+    return this.queue[this.queueIndex] ?? null;
+  }
+
+  private async playAt(index: number): Promise<void> {
+    const recording = this.queue[index];
+    if (!recording) return;
+
+    try {
       // Stop and clean up current audio if exists
-      await this.stopAudio();
+      this.releaseAudio();
+
+      const track = await this.source.load(recording);
+      this.queueIndex = index;
 
       // Create new audio element
-      this.audio = new Audio(uri);
-      this.currentUri = uri;
+      const audio = new Audio(track.uri);
+      this.audio = audio;
+      this.silentRanges = track.silentRanges || [];
+      this.positionSavedAt = 0;
+      audio.playbackRate = this.playbackRate;
+      audio.preservesPitch = true;
+      if (track.startAt) {
+        audio.currentTime = track.startAt;
+      }
 
-      // Set up event listeners
-      this.audio.addEventListener('ended', () => {
-        this.stopAudio();
+      // Set up event listeners; events from a replaced element are ignored
+      audio.addEventListener('timeupdate', () => {
+        if (this.audio !== audio) return;
+        this.skipSilence();
+        this.savePosition(false);
+        this.notify();
+      });
+      audio.addEventListener('play', () => this.notify());
+      audio.addEventListener('pause', () => {
+        if (this.audio !== audio) return;
+        this.savePosition(true);
+        this.notify();
+      });
+
+      audio.addEventListener('ended', () => {
+        if (this.audio !== audio) return;
+        // Finished recordings start from the beginning next time
+        this.source.savePosition(recording.id, 0).catch(error => {
+          console.error('Failed to save playback position:', error);
+        });
+
+        if (this.hasNext()) {
+          this.next().catch(error => console.error('Failed to play next recording:', error));
+        } else {
+          this.stopAudio();
+        }
       });
 
-      this.audio.addEventListener('error', (e) => {
+      audio.addEventListener('error', (e) => {
+        if (this.audio !== audio) return;
         console.error('Audio playback error:', e);
         this.stopAudio();
       });
 
+      this.notify();
+
       // Play the audio
-      await this.audio.play();
+      await audio.play();
     } catch (error) {
       console.error('Error playing audio:', error);
+      await this.stopAudio();
       throw error;
     }
   }
@@ -45,18 +188,106 @@ export class AudioPlayerService {
     }
   }
 
+  async resumeAudio(): Promise<void> {
+    if (this.audio && this.audio.paused) {
+      await this.audio.play();
+    }
+  }
+
+  // Stop playback and clear the queue
   async stopAudio(): Promise<void> {
+    this.releaseAudio();
+    this.queue = [];
+    this.queueIndex = -1;
+    this.notify();
+  }
+
+  private releaseAudio(): void {
     if (this.audio) {
-      this.audio.pause();
-      this.audio.currentTime = 0;
+      this.savePosition(true);
+      const audio = this.audio;
       this.audio = null;
+      audio.pause();
+    }
+    this.silentRanges = [];
+  }
+
+  // Throttled while playing; forced on pause
+  private savePosition(force: boolean): void {
+    const recording = this.getCurrentRecording();
+    // Finished recordings are reset to the start by the ended handler
+    if (!recording || !this.audio || this.audio.ended) return;
+
+    const now = Date.now();
+    if (!force && now - this.positionSavedAt < POSITION_SAVE_INTERVAL_MS) return;
+    this.positionSavedAt = now;
+
+    this.source.savePosition(recording.id, this.audio.currentTime).catch(error => {
+      console.error('Failed to save playback position:', error);
+    });
+  }
+
+  private skipSilence(): void {
+    if (!this.audio || this.audio.paused) return;
+
+    const time = this.audio.currentTime;
+    const range = this.silentRanges.find(
+      r => time >= r.start + SILENCE_SKIP_MARGIN && time < r.end - SILENCE_SKIP_MARGIN
+    );
+    if (range) {
+      this.audio.currentTime = range.end - SILENCE_SKIP_MARGIN;
+    }
+  }
+
+  // Jump to a position, starting playback of the given recording if needed
+  async seekTo(recording: Recording, time: number): Promise<void> {
+    if (this.getCurrentRecording()?.id !== recording.id || !this.audio) {
+      await this.playQueue([recording]);
+    }
+
+    if (this.audio) {
+      this.audio.currentTime = Math.max(0, time);
+      if (this.audio.paused) {
+        await this.audio.play();
+      }
+    }
+  }
+
+  // Move within the current file without changing play/pause state
+  seek(time: number): void {
+    if (!this.audio) return;
+    const duration = this.getDuration();
+    this.audio.currentTime = Math.max(0, duration > 0 ? Math.min(duration, time) : time);
+    this.notify();
+  }
+
+  skip(seconds: number): void {
+    this.seek(this.getCurrentTime() + seconds);
+  }
+
+  // Applies to the current file and everything played after it, and is remembered
+  setPlaybackRate(rate: number): void {
+    this.applyPlaybackRate(rate);
+    this.source.savePlaybackRate(rate).catch(error => {
+      console.error('Failed to save playback speed:', error);
+    });
+  }
+
+  private applyPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+    if (this.audio) {
+      this.audio.playbackRate = rate;
     }
-    this.currentUri = null;
+    this.notify();
   }
 
-  isPlaying(uri?: string): boolean {
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  isPlaying(recordingId?: string): boolean {
     if (!this.audio) return false;
-    if (uri && this.currentUri !== uri) return false;
+    if (recordingId && this.getCurrentRecording()?.id !== recordingId) return false;
     return !this.audio.paused;
   }
 
@@ -64,8 +295,10 @@ export class AudioPlayerService {
     return this.audio?.currentTime || 0;
   }
 
+  // 0 while unknown; MediaRecorder WebM files often report Infinity until fully read
   getDuration(): number {
-    return this.audio?.duration || 0;
+    const duration = this.audio?.duration || 0;
+    return Number.isFinite(duration) ? duration : 0;
   }
 
   setVolume(volume: number): void {
@@ -74,3 +307,6 @@ export class AudioPlayerService {
     }
   }
 }
+
+// Shared so playback carries on while switching views
+export const audioPlayer = new AudioPlayerService(new PlaybackService(new StorageService()));
@@ -0,0 +1,233 @@
+import type { TimeRange } from '../types/Recording';
+
+// RMS below this (about -40 dBFS) counts as silence
+export const SILENCE_RMS_THRESHOLD = 0.01;
+
+// Edits and trims are re-encoded as mono WAV; 24 kHz keeps speech clear at ~2.8 MB per minute
+export const EDIT_SAMPLE_RATE = 24000;
+
+const ANALYSIS_WINDOW_SECONDS = 0.05;
+const TRIM_PADDING_SECONDS = 0.25;
+const MIN_TRIM_SECONDS = 1;
+
+// Trimming decodes the whole recording and saves it as WAV, several times the
+// size of the compressed original, so longer recordings keep their own format
+export const MAX_TRIM_SILENCE_SECONDS = 10 * 60;
+// Decoding holds the whole file as float PCM (~1.4 GB per hour of 48 kHz stereo)
+const MAX_DECODE_FOR_DURATION_BYTES = 50 * 1024 * 1024;
+// Media elements may never fire an event for files they cannot make sense of
+const METADATA_TIMEOUT_MS = 10000;
+
+export class AudioProcessingService {
+  // Decode a compressed audio blob and mix it down to mono at the given rate
+  async decodeToMono(audioBlob: Blob, sampleRate: number): Promise<Float32Array> {
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    const context = new AudioContext();
+
+    try {
+      const decoded = await context.decodeAudioData(arrayBuffer);
+      const length = Math.ceil(decoded.duration * sampleRate);
+
+      // Rendering through a mono offline context resamples and downmixes in one pass
+      const offline = new OfflineAudioContext(1, length, sampleRate);
+      const source = offline.createBufferSource();
+      source.buffer = decoded;
+      source.connect(offline.destination);
+      source.start();
+
+      const rendered = await offline.startRendering();
+      return rendered.getChannelData(0);
+    } finally {
+      await context.close();
+    }
+  }
+
+  // Length in seconds; throws if the browser cannot play the format. Read from
+  // the file's metadata, and only decoded when that has no usable duration.
+  async getDuration(audioBlob: Blob): Promise<number> {
+    const duration = await this.readMetadataDuration(audioBlob);
+    if (duration !== null) return duration;
+
+    if (audioBlob.size > MAX_DECODE_FOR_DURATION_BYTES) {
+      throw new Error('Could not read the length of the audio; the format may not be supported');
+    }
+
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    const context = new AudioContext();
+
+    try {
+      const decoded = await context.decodeAudioData(arrayBuffer);
+      return decoded.duration;
+    } finally {
+      await context.close();
+    }
+  }
+
+  // Null when the file does not state its length, as with MediaRecorder WebM,
+  // or the media element cannot read it in time
+  private readMetadataDuration(audioBlob: Blob): Promise<number | null> {
+    const audio = new Audio();
+    const url = URL.createObjectURL(audioBlob);
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    return new Promise<number | null>(resolve => {
+      timeout = setTimeout(() => resolve(null), METADATA_TIMEOUT_MS);
+      audio.preload = 'metadata';
+
+      audio.onloadedmetadata = () => {
+        if (Number.isFinite(audio.duration)) {
+          resolve(audio.duration);
+          return;
+        }
+        // Seeking far past the end makes the browser scan for the real length
+        audio.ondurationchange = () => {
+          if (Number.isFinite(audio.duration)) resolve(audio.duration);
+        };
+        audio.onseeked = () => resolve(Number.isFinite(audio.duration) ? audio.duration : null);
+        audio.currentTime = Number.MAX_SAFE_INTEGER;
+      };
+
+      audio.onerror = () => resolve(null);
+      audio.src = url;
+    }).finally(() => {
+      clearTimeout(timeout);
+      audio.onloadedmetadata = audio.ondurationchange = audio.onseeked = audio.onerror = null;
+      audio.removeAttribute('src');
+      audio.load();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  // RMS loudness of consecutive 50ms windows
+  private windowLevels(samples: Float32Array, sampleRate: number): { levels: Float32Array; windowSize: number } {
+    const windowSize = Math.max(1, Math.floor(sampleRate * ANALYSIS_WINDOW_SECONDS));
+    const levels = new Float32Array(Math.ceil(samples.length / windowSize));
+
+    for (let w = 0; w < levels.length; w++) {
+      const start = w * windowSize;
+      const end = Math.min(samples.length, start + windowSize);
+      let sumOfSquares = 0;
+      for (let i = start; i < end; i++) {
+        sumOfSquares += samples[i] * samples[i];
+      }
+      levels[w] = Math.sqrt(sumOfSquares / (end - start));
+    }
+
+    return { levels, windowSize };
+  }
+
+  // Silent stretches of at least minSilenceSeconds, in seconds
+  detectSilentRanges(samples: Float32Array, sampleRate: number, minSilenceSeconds: number): TimeRange[] {
+    const { levels, windowSize } = this.windowLevels(samples, sampleRate);
+    const windowSeconds = windowSize / sampleRate;
+    const ranges: TimeRange[] = [];
+
+    let silentFrom: number | null = null;
+    for (let w = 0; w <= levels.length; w++) {
+      const silent = w < levels.length && levels[w] < SILENCE_RMS_THRESHOLD;
+      if (silent && silentFrom === null) {
+        silentFrom = w;
+      } else if (!silent && silentFrom !== null) {
+        if ((w - silentFrom) * windowSeconds >= minSilenceSeconds) {
+          ranges.push({ start: silentFrom * windowSeconds, end: w * windowSeconds });
+        }
+        silentFrom = null;
+      }
+    }
+
+    return ranges;
+  }
+
+  // Cut leading and trailing silence; returns null when the recording is too long
+  // or there is too little silence to be worth re-encoding
+  async trimSilence(audioBlob: Blob, duration: number): Promise<{ blob: Blob; duration: number } | null> {
+    if (duration > MAX_TRIM_SILENCE_SECONDS) return null;
+
+    const samples = await this.decodeToMono(audioBlob, EDIT_SAMPLE_RATE);
+    const { levels, windowSize } = this.windowLevels(samples, EDIT_SAMPLE_RATE);
+
+    let first = 0;
+    while (first < levels.length && levels[first] < SILENCE_RMS_THRESHOLD) first++;
+    let last = levels.length - 1;
+    while (last > first && levels[last] < SILENCE_RMS_THRESHOLD) last--;
+
+    // Nothing but silence: keep the original rather than saving an empty file
+    if (first >= levels.length) return null;
+
+    const padding = Math.floor(TRIM_PADDING_SECONDS * EDIT_SAMPLE_RATE);
+    const start = Math.max(0, first * windowSize - padding);
+    const end = Math.min(samples.length, (last + 1) * windowSize + padding);
+
+    if ((samples.length - (end - start)) / EDIT_SAMPLE_RATE < MIN_TRIM_SECONDS) return null;
+
+    return {
+      blob: this.encodeWav(samples.subarray(start, end), EDIT_SAMPLE_RATE),
+      duration: (end - start) / EDIT_SAMPLE_RATE,
+    };
+  }
+
+  // Find the quietest point (in samples) between two sample positions
+  findSilenceBoundary(
+    samples: Float32Array,
+    sampleRate: number,
+    from: number,
+    to: number
+  ): number {
+    const windowSize = Math.floor(sampleRate * 0.05); // 50ms analysis window
+    const start = Math.max(0, from);
+    const end = Math.min(samples.length, to);
+
+    let quietestPosition = end;
+    let quietestEnergy = Infinity;
+
+    for (let position = start; position + windowSize <= end; position += windowSize) {
+      let energy = 0;
+      for (let i = position; i < position + windowSize; i++) {
+        energy += samples[i] * samples[i];
+      }
+      if (energy < quietestEnergy) {
+        quietestEnergy = energy;
+        quietestPosition = position + Math.floor(windowSize / 2);
+      }
+    }
+
+    return quietestPosition;
+  }
+
+  // Encode mono float samples as a 16-bit PCM WAV file
+  encodeWav(samples: Float32Array, sampleRate: number): Blob {
+    const bytesPerSample = 2;
+    const dataSize = samples.length * bytesPerSample;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+      }
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * bytesPerSample, true); // Byte rate
+    view.setUint16(32, bytesPerSample, true); // Block align
+    view.setUint16(34, 16, true); // Bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    let offset = 44;
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+}
@@ -1,8 +1,100 @@
+import { StorageService } from './StorageService';
+import { getSessionLockName } from './SessionRecoveryService';
+import { DEFAULT_MICROPHONE_SETTINGS } from '../types/Settings';
+import type { MicrophoneSettings } from '../types/Settings';
+
+export type AudioLevel = {
+  rms: number; // 0..1, average loudness of the frame
+  peak: number; // 0..1, loudest sample of the frame
+}
+
+// 'devices-changed': the list of inputs changed; 'device-lost': the input in use went away
+export type DeviceChangeEvent = 'devices-changed' | 'device-lost';
+
 export class AudioRecorderService {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
   private stream: MediaStream | null = null;
   private startTime: number = 0;
+  private pausedAt: number = 0; // Epoch ms the current pause began, 0 when not paused
+  private pausedTotal: number = 0; // Ms spent paused before the current pause
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private levelFrame: number | null = null;
+  private levelListeners = new Set<(level: AudioLevel) => void>();
+  private storage: StorageService;
+  private sessionId: string | null = null;
+  private chunkIndex = 0;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private releaseSessionLock: (() => void) | null = null;
+  private captureSettings: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS;
+  private deviceListeners = new Set<(event: DeviceChangeEvent) => void>();
+  private watchingDevices = false;
+
+  constructor(storage: StorageService = new StorageService()) {
+    this.storage = storage;
+  }
+
+  // Receive input levels once per animation frame while the microphone is open
+  onLevel(listener: (level: AudioLevel) => void): () => void {
+    this.levelListeners.add(listener);
+    this.startLevelMonitoring();
+    return () => {
+      this.levelListeners.delete(listener);
+      if (this.levelListeners.size === 0) {
+        this.stopLevelMonitoring();
+      }
+    };
+  }
+
+  private startLevelMonitoring(): void {
+    if (!this.stream || this.levelListeners.size === 0 || this.levelFrame !== null) return;
+
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 2048;
+      this.audioContext.createMediaStreamSource(this.stream).connect(this.analyser);
+    }
+
+    if (!this.analyser) return;
+    const samples = new Float32Array(this.analyser.fftSize);
+
+    const tick = () => {
+      if (!this.analyser) return;
+      this.analyser.getFloatTimeDomainData(samples);
+
+      let sumOfSquares = 0;
+      let peak = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const value = Math.abs(samples[i]);
+        sumOfSquares += value * value;
+        if (value > peak) peak = value;
+      }
+
+      const level: AudioLevel = { rms: Math.sqrt(sumOfSquares / samples.length), peak };
+      this.levelListeners.forEach(listener => listener(level));
+      this.levelFrame = requestAnimationFrame(tick);
+    };
+
+    this.levelFrame = requestAnimationFrame(tick);
+  }
+
+  private stopLevelMonitoring(): void {
+    if (this.levelFrame !== null) {
+      cancelAnimationFrame(this.levelFrame);
+      this.levelFrame = null;
+    }
+  }
+
+  private releaseAnalyser(): void {
+    this.stopLevelMonitoring();
+    this.analyser = null;
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+  }
 
   // Pre-initialize microphone stream for faster recording start
   async initializeMicrophone(): Promise<void> {
@@ -13,13 +105,103 @@ export class AudioRecorderService {
         throw new Error('MediaRecorder is not supported in this browser');
       }
 
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.stream = await this.openStream();
+      this.watchDevices();
+      this.startLevelMonitoring();
     } catch (error) {
       console.error('Error initializing microphone:', error);
       throw error;
     }
   }
 
+  private async openStream(): Promise<MediaStream> {
+    const { deviceId, echoCancellation, noiseSuppression, autoGainControl } = this.captureSettings;
+    const constraints: MediaTrackConstraints = { echoCancellation, noiseSuppression, autoGainControl };
+
+    if (deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({
+          audio: { ...constraints, deviceId: { exact: deviceId } },
+        });
+      } catch (error) {
+        // The preferred mic is unplugged or unavailable; fall back to the default one
+        console.warn('Preferred microphone unavailable, using default:', error);
+      }
+    }
+
+    return navigator.mediaDevices.getUserMedia({ audio: constraints });
+  }
+
+  // Apply new device/constraint settings, reopening the microphone if it is idle
+  async setCaptureSettings(settings: MicrophoneSettings): Promise<void> {
+    this.captureSettings = settings;
+
+    if (this.stream && !this.mediaRecorder) {
+      await this.reopenStream();
+    }
+  }
+
+  getCaptureSettings(): MicrophoneSettings {
+    return this.captureSettings;
+  }
+
+  // Device id of the microphone actually in use
+  getActiveDeviceId(): string | undefined {
+    return this.stream?.getAudioTracks()[0]?.getSettings().deviceId;
+  }
+
+  async listInputDevices(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+  }
+
+  onDeviceChange(listener: (event: DeviceChangeEvent) => void): () => void {
+    this.deviceListeners.add(listener);
+    return () => {
+      this.deviceListeners.delete(listener);
+    };
+  }
+
+  private async reopenStream(): Promise<void> {
+    this.releaseAnalyser();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+
+    this.stream = await this.openStream();
+    this.startLevelMonitoring();
+  }
+
+  private watchDevices(): void {
+    if (this.watchingDevices || !navigator.mediaDevices?.addEventListener) return;
+    this.watchingDevices = true;
+
+    navigator.mediaDevices.addEventListener('devicechange', async () => {
+      const track = this.stream?.getAudioTracks()[0];
+      const activeDeviceId = track?.getSettings().deviceId;
+      const devices = await this.listInputDevices();
+      const deviceGone = !!track && (
+        track.readyState === 'ended' ||
+        (!!activeDeviceId && !devices.some(device => device.deviceId === activeDeviceId))
+      );
+
+      if (deviceGone) {
+        if (this.mediaRecorder) {
+          // A MediaRecorder can't switch streams mid-recording; let the UI stop it
+          this.deviceListeners.forEach(listener => listener('device-lost'));
+        } else {
+          try {
+            await this.reopenStream();
+          } catch (error) {
+            console.error('Failed to reopen microphone after device change:', error);
+          }
+        }
+      }
+
+      this.deviceListeners.forEach(listener => listener('devices-changed'));
+    });
+  }
+
   async startRecording(): Promise<void> {
     try {
       // Check if MediaRecorder is supported
@@ -49,14 +231,35 @@ export class AudioRecorderService {
         options = { mimeType: 'audio/ogg' };
       }
 
+      // The context may have been created before a user gesture and start suspended
+      if (this.audioContext?.state === 'suspended') {
+        await this.audioContext.resume();
+      }
+
       this.mediaRecorder = new MediaRecorder(this.stream, options);
       this.audioChunks = [];
       this.startTime = Date.now();
+      this.pausedAt = 0;
+      this.pausedTotal = 0;
+
+      // Persist chunks as they arrive so a crash or reload doesn't lose the recording
+      const sessionId = `session-${this.startTime}`;
+      this.sessionId = sessionId;
+      this.chunkIndex = 0;
+      this.holdSessionLock(sessionId);
+      this.persistQueue = this.storage.saveSession({
+        id: sessionId,
+        startedAt: this.startTime,
+        updatedAt: this.startTime,
+        mimeType: this.mediaRecorder.mimeType || options.mimeType || 'audio/webm',
+        duration: 0,
+      }).catch(error => console.error('Failed to create recording session:', error));
 
       // Collect audio data
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           this.audioChunks.push(event.data);
+          this.persistChunk(sessionId, event.data);
         }
       };
 
@@ -129,33 +332,92 @@ export class AudioRecorderService {
     });
   }
 
+  // Tells other tabs the session is still live, even while paused and no chunks arrive
+  private holdSessionLock(sessionId: string): void {
+    this.releaseSessionLock?.();
+    this.releaseSessionLock = null;
+    if (!navigator.locks) return;
+
+    let release!: () => void;
+    const held = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    this.releaseSessionLock = release;
+
+    navigator.locks
+      .request(getSessionLockName(sessionId), () => held)
+      .catch(error => console.error('Failed to lock recording session:', error));
+  }
+
+  private persistChunk(sessionId: string, chunk: Blob): void {
+    const index = this.chunkIndex++;
+    const duration = this.getDuration();
+
+    // Chain writes so chunks land in order and discardSession can wait for them
+    this.persistQueue = this.persistQueue
+      .then(async () => {
+        await this.storage.appendSessionChunk(sessionId, index, await chunk.arrayBuffer(), duration);
+      })
+      .catch(error => console.error('Failed to persist recording chunk:', error));
+  }
+
+  // Call once the stopped recording has been saved; its crash-recovery copy is no longer needed
+  async discardSession(): Promise<void> {
+    const sessionId = this.sessionId;
+    if (!sessionId) return;
+
+    const releaseSessionLock = this.releaseSessionLock;
+    this.sessionId = null;
+    this.releaseSessionLock = null;
+
+    // Released even if deleting fails, so recovery can offer the leftover session
+    try {
+      await this.persistQueue;
+      await this.storage.deleteSession(sessionId);
+    } finally {
+      releaseSessionLock?.();
+    }
+  }
+
+  // Seconds actually recorded, excluding time spent paused
   getDuration(): number {
     if (!this.startTime) return 0;
-    return Math.floor((Date.now() - this.startTime) / 1000);
+    const end = this.pausedAt || Date.now();
+    return Math.floor((end - this.startTime - this.pausedTotal) / 1000);
   }
 
   async pauseRecording(): Promise<void> {
     if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
       this.mediaRecorder.pause();
+      this.pausedAt = Date.now();
     }
   }
 
   async resumeRecording(): Promise<void> {
     if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
       this.mediaRecorder.resume();
+      this.pausedTotal += Date.now() - this.pausedAt;
+      this.pausedAt = 0;
     }
   }
 
+  isPaused(): boolean {
+    return this.mediaRecorder?.state === 'paused';
+  }
+
   private cleanup(): void {
     // Keep stream alive for faster subsequent recordings
     // Only clean up the recorder and data
     this.mediaRecorder = null;
     this.audioChunks = [];
     this.startTime = 0;
+    this.pausedAt = 0;
+    this.pausedTotal = 0;
   }
 
   // Fully release all resources including microphone stream
   release(): void {
+    this.releaseAnalyser();
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
       this.stream = null;
@@ -0,0 +1,236 @@
+import { zip, unzip, strToU8, strFromU8 } from 'fflate';
+import type { Unzipped, Zippable } from 'fflate';
+import { StorageService } from './StorageService';
+import type { Recording } from '../types/Recording';
+import type { TranscriptVersion } from '../types/TranscriptVersion';
+
+const BACKUP_FORMAT = 'voicetranscriber-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+type BackupRecording = Omit<Recording, 'date'> & {
+  date: string; // ISO 8601
+  audioFile?: string; // Path of the audio inside the archive
+  transcriptVersions?: TranscriptVersion[]; // Missing in backups from before transcript history
+}
+
+type BackupManifest = {
+  format: string;
+  version: number;
+  exportedAt: string;
+  recordings: BackupRecording[];
+}
+
+export type RestoreResult = {
+  imported: number;
+  skipped: number; // Already present (same id)
+}
+
+export class BackupService {
+  private storage: StorageService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  // Export all recordings, or only the given ids, as a zip archive
+  async exportLibrary(ids?: string[]): Promise<Blob> {
+    const all = await this.storage.getAllRecordings();
+    const recordings = ids ? all.filter(rec => ids.includes(rec.id)) : all;
+
+    const files: Zippable = {};
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      recordings: [],
+    };
+
+    for (const recording of recordings) {
+      // Runtime-only and derived fields are left out (undefined is dropped by JSON)
+      const entry: BackupRecording = {
+        ...recording,
+        audioBlob: undefined,
+        searchTokens: undefined,
+        isTranscribing: undefined,
+        date: recording.date.toISOString(),
+      };
+
+      const versions = await this.storage.getTranscriptVersions(recording.id);
+      if (versions.length > 0) {
+        entry.transcriptVersions = versions;
+      }
+
+      const audio = await this.storage.getAudioBlob(recording.id);
+      if (audio) {
+        entry.audioFile = `audio/${recording.id}.${this.getExtension(audio.type)}`;
+        // Audio is already compressed, so store it without deflating again
+        files[entry.audioFile] = [new Uint8Array(await audio.arrayBuffer()), { level: 0 }];
+      }
+
+      manifest.recordings.push(entry);
+    }
+
+    files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+    const data = await new Promise<Uint8Array>((resolve, reject) => {
+      zip(files, (error, result) => (error ? reject(error) : resolve(result)));
+    });
+
+    return new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' });
+  }
+
+  async importLibrary(archive: Blob): Promise<RestoreResult> {
+    const data = new Uint8Array(await archive.arrayBuffer());
+    const files = await new Promise<Unzipped>((resolve, reject) => {
+      unzip(data, (error, result) => (error ? reject(error) : resolve(result)));
+    });
+
+    const manifest = this.parseManifest(files);
+    const result: RestoreResult = { imported: 0, skipped: 0 };
+
+    for (const entry of manifest.recordings) {
+      if (await this.storage.getRecording(entry.id)) {
+        result.skipped++;
+        continue;
+      }
+
+      // Only the fields findEntryProblem checked; anything else in the entry could
+      // clash with what StorageService keeps alongside a recording
+      const recording: Recording = {
+        id: entry.id,
+        mimeType: entry.mimeType,
+        duration: entry.duration,
+        date: new Date(entry.date),
+        transcript: entry.transcript,
+        segments: entry.segments,
+        isTranscribing: false,
+        title: entry.title,
+        folder: entry.folder,
+        tags: entry.tags,
+        silentRanges: entry.silentRanges,
+        summary: entry.summary,
+      };
+
+      if (entry.audioFile) {
+        recording.audioBlob = new Blob([files[entry.audioFile] as Uint8Array<ArrayBuffer>], {
+          type: entry.mimeType || 'audio/webm',
+        });
+      }
+
+      await this.storage.saveRecording(recording);
+      // Versions belong to the entry they are listed under, whatever their recordingId says
+      for (const version of entry.transcriptVersions ?? []) {
+        await this.storage.saveTranscriptVersion({ ...version, recordingId: entry.id });
+      }
+      result.imported++;
+    }
+
+    return result;
+  }
+
+  // Reject anything that doesn't look like one of our archives before touching the database
+  private parseManifest(files: Unzipped): BackupManifest {
+    const raw = files[MANIFEST_FILE];
+    if (!raw) {
+      throw new Error('Not a VoiceTranscriber backup: manifest.json is missing');
+    }
+
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(strFromU8(raw));
+    } catch {
+      throw new Error('Backup manifest is not valid JSON');
+    }
+
+    if (!isObject(manifest) || manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+      throw new Error('Not a VoiceTranscriber backup');
+    }
+    if (manifest.version > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of the app');
+    }
+    if (!Array.isArray(manifest.recordings)) {
+      throw new Error('Backup manifest has no recordings list');
+    }
+
+    // Check every entry up front so a bad one can't leave a half-restored library
+    manifest.recordings.forEach((entry: unknown, index) => {
+      const problem = this.findEntryProblem(entry, files);
+      if (problem) {
+        throw new Error(`Recording ${index + 1} in backup ${problem}`);
+      }
+    });
+
+    return manifest as BackupManifest;
+  }
+
+  // Describes what is wrong with a manifest entry, or returns null when it can be restored
+  private findEntryProblem(entry: unknown, files: Unzipped): string | null {
+    if (!isObject(entry)) return 'is not a recording';
+    if (typeof entry.id !== 'string' || !entry.id) return 'has no id';
+    if (typeof entry.date !== 'string' || isNaN(new Date(entry.date).getTime())) return 'has an invalid date';
+    if (typeof entry.duration !== 'number' || !(entry.duration >= 0)) return 'has an invalid duration';
+
+    for (const field of ['title', 'folder', 'transcript', 'mimeType', 'audioFile'] as const) {
+      if (entry[field] !== undefined && typeof entry[field] !== 'string') return `has an invalid ${field}`;
+    }
+
+    if (entry.audioFile !== undefined && !files[entry.audioFile as string]) return 'is missing its audio file';
+    if (entry.tags !== undefined && !isStringArray(entry.tags)) return 'has invalid tags';
+    if (entry.segments !== undefined && !isSegmentList(entry.segments)) return 'has invalid transcript timings';
+    if (entry.silentRanges !== undefined && !isRangeList(entry.silentRanges)) return 'has invalid silent ranges';
+
+    if (entry.summary !== undefined) {
+      const summary = entry.summary;
+      if (
+        !isObject(summary) ||
+        typeof summary.overview !== 'string' ||
+        !isStringArray(summary.keyPoints) ||
+        !isStringArray(summary.actionItems) ||
+        typeof summary.model !== 'string' ||
+        typeof summary.generatedAt !== 'number'
+      ) {
+        return 'has an invalid summary';
+      }
+    }
+
+    if (entry.transcriptVersions !== undefined) {
+      const versions = entry.transcriptVersions;
+      if (!Array.isArray(versions) || !versions.every(isTranscriptVersion)) {
+        return 'has an invalid transcript history';
+      }
+    }
+
+    return null;
+  }
+
+  private getExtension(mimeType: string): string {
+    if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a';
+    if (mimeType.includes('ogg')) return 'ogg';
+    if (mimeType.includes('wav')) return 'wav';
+    if (mimeType.includes('mpeg')) return 'mp3';
+    return 'webm';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRangeList = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every(range => isObject(range) && typeof range.start === 'number' && typeof range.end === 'number');
+
+const isSegmentList = (value: unknown): boolean =>
+  isRangeList(value) && (value as Record<string, unknown>[]).every(segment => typeof segment.text === 'string');
+
+const isTranscriptVersion = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  !!value.id &&
+  ['machine', 'manual', 'revert'].includes(value.source as string) &&
+  typeof value.text === 'string' &&
+  typeof value.createdAt === 'number' &&
+  (value.segments === undefined || isSegmentList(value.segments));
@@ -0,0 +1,160 @@
+export type EncryptedData = {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// Persisted in the settings store. The passphrase only protects a random data
+// key, so records never have to be re-encrypted when the passphrase is entered.
+export type EncryptionConfig = {
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number; // PBKDF2 rounds used when the config was created
+  wrappedKey: EncryptedData;
+}
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// AES-GCM encryption with a key derived from the user's passphrase. The key
+// only ever lives in memory and is dropped again by lock().
+export class EncryptionService {
+  private config: EncryptionConfig | null | undefined; // undefined until loaded from storage
+  private key: CryptoKey | null = null;
+  private listeners = new Set<() => void>();
+
+  // Notified when encryption is turned on or off, locked or unlocked
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  isConfigured(): boolean {
+    return this.config !== undefined;
+  }
+
+  configure(config: EncryptionConfig | null): void {
+    this.config = config;
+    this.notify();
+  }
+
+  isEnabled(): boolean {
+    return !!this.config;
+  }
+
+  isLocked(): boolean {
+    return this.isEnabled() && !this.key;
+  }
+
+  // Create a new data key protected by the passphrase; returns the config to persist
+  async enable(passphrase: string): Promise<EncryptionConfig> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const rawKey = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+    const wrappingKey = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+    const config: EncryptionConfig = {
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      wrappedKey: await this.encryptWith(wrappingKey, rawKey),
+    };
+    this.key = await this.importKey(rawKey);
+    rawKey.fill(0);
+
+    this.config = config;
+    this.notify();
+    return config;
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.config) {
+      throw new Error('Encryption is not enabled');
+    }
+
+    const wrappingKey = await this.deriveKey(passphrase, this.config.salt, this.config.iterations);
+    let rawKey: Uint8Array<ArrayBuffer>;
+    try {
+      rawKey = new Uint8Array(await this.decryptWith(wrappingKey, this.config.wrappedKey));
+    } catch {
+      // AES-GCM authentication fails when the derived key is wrong
+      throw new Error('Incorrect passphrase');
+    }
+
+    this.key = await this.importKey(rawKey);
+    rawKey.fill(0);
+    this.notify();
+  }
+
+  // The key is kept so records that are still encrypted can be decrypted
+  disable(): void {
+    this.config = null;
+    this.notify();
+  }
+
+  lock(): void {
+    if (!this.key) return;
+    this.key = null;
+    this.notify();
+  }
+
+  async encrypt(data: BufferSource): Promise<EncryptedData> {
+    return this.encryptWith(this.requireKey(), data);
+  }
+
+  async decrypt(encrypted: EncryptedData): Promise<ArrayBuffer> {
+    return this.decryptWith(this.requireKey(), encrypted);
+  }
+
+  async encryptJSON(value: unknown): Promise<EncryptedData> {
+    return this.encrypt(new TextEncoder().encode(JSON.stringify(value)));
+  }
+
+  async decryptJSON<T>(encrypted: EncryptedData): Promise<T> {
+    return JSON.parse(new TextDecoder().decode(await this.decrypt(encrypted))) as T;
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) {
+      throw new Error('Recordings are locked');
+    }
+    return this.key;
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private importKey(rawKey: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  private async encryptWith(key: CryptoKey, data: BufferSource): Promise<EncryptedData> {
+    // AES-GCM must never reuse an IV with the same key, so every value gets a fresh one
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+  }
+
+  private decryptWith(key: CryptoKey, encrypted: EncryptedData): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: encrypted.iv }, key, encrypted.data);
+  }
+}
+
+export const encryption = new EncryptionService();
@@ -0,0 +1,91 @@
+import { AudioPlayerService } from './AudioPlayerService';
+
+const DEFAULT_SEEK_OFFSET_SECONDS = 15;
+
+// Mirrors the player on the lock screen and routes headset/notification buttons back to it
+export class MediaSessionService {
+  private player: AudioPlayerService;
+  private currentId: string | null = null;
+
+  constructor(player: AudioPlayerService) {
+    this.player = player;
+
+    if (!this.isSupported()) return;
+
+    this.setHandler('play', () => this.player.resumeAudio());
+    this.setHandler('pause', () => this.player.pauseAudio());
+    this.setHandler('stop', () => this.player.stopAudio());
+    this.setHandler('seekbackward', (details) => {
+      this.player.skip(-(details.seekOffset || DEFAULT_SEEK_OFFSET_SECONDS));
+    });
+    this.setHandler('seekforward', (details) => {
+      this.player.skip(details.seekOffset || DEFAULT_SEEK_OFFSET_SECONDS);
+    });
+    this.setHandler('seekto', (details) => {
+      if (details.seekTime !== undefined) {
+        this.player.seek(details.seekTime);
+      }
+    });
+
+    this.player.subscribe(() => this.sync());
+  }
+
+  private sync(): void {
+    const session = navigator.mediaSession;
+    const recording = this.player.getCurrentRecording();
+
+    if (!recording) {
+      this.currentId = null;
+      session.metadata = null;
+      session.playbackState = 'none';
+      this.setHandler('previoustrack', null);
+      this.setHandler('nexttrack', null);
+      return;
+    }
+
+    // Metadata and track buttons only change with the recording
+    if (recording.id !== this.currentId) {
+      this.currentId = recording.id;
+      session.metadata = new MediaMetadata({
+        title: recording.title || 'Recording',
+        artist: `${recording.date.toLocaleDateString()} ${recording.date.toLocaleTimeString()}`,
+        album: 'VoiceTranscriber',
+        artwork: [{ src: '/logo.svg', sizes: 'any', type: 'image/svg+xml' }],
+      });
+
+      // "Previous" also restarts the current recording, so it is always offered
+      this.setHandler('previoustrack', () => {
+        this.player.previous().catch(error => console.error('Failed to play previous recording:', error));
+      });
+      this.setHandler('nexttrack', this.player.hasNext() ? () => {
+        this.player.next().catch(error => console.error('Failed to play next recording:', error));
+      } : null);
+    }
+
+    session.playbackState = this.player.isPlaying() ? 'playing' : 'paused';
+
+    const duration = this.player.getDuration();
+    const position = this.player.getCurrentTime();
+    // Streams without a known duration can't show a position
+    if (duration > 0 && position <= duration) {
+      try {
+        session.setPositionState({ duration, position, playbackRate: this.player.getPlaybackRate() });
+      } catch (error) {
+        console.error('Failed to update media position:', error);
+      }
+    }
+  }
+
+  // Browsers throw for actions they don't support; those are simply left out
+  private setHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      console.log(`Media session action "${action}" is not supported`);
+    }
+  }
+
+  private isSupported(): boolean {
+    return 'mediaSession' in navigator;
+  }
+}
@@ -0,0 +1,73 @@
+import { StorageService } from './StorageService';
+import { AudioProcessingService } from './AudioProcessingService';
+import type { LoadedTrack, TrackSource } from './AudioPlayerService';
+import type { Recording, TimeRange } from '../types/Recording';
+import type { SilenceSettings } from '../types/Settings';
+
+const MIN_SKIPPED_SILENCE_SECONDS = 2;
+const SILENCE_ANALYSIS_SAMPLE_RATE = 8000;
+// Resume positions this close to the end restart from the beginning instead
+const RESUME_END_MARGIN_SECONDS = 5;
+
+// Supplies the player with audio, skip-silence ranges and resume positions from the library
+export class PlaybackService implements TrackSource {
+  private storage: StorageService;
+  private processing = new AudioProcessingService();
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  async load(recording: Recording): Promise<LoadedTrack> {
+    // Audio is loaded lazily; only the recording being played keeps a Blob URL
+    this.storage.revokeAudioUrls(recording.id);
+    const uri = await this.storage.getAudioUrl(recording.id);
+    if (!uri) {
+      throw new Error('Audio data not available');
+    }
+
+    const position = await this.storage.getPlaybackPosition(recording.id);
+    const startAt = position && position < recording.duration - RESUME_END_MARGIN_SECONDS ? position : 0;
+
+    return { uri, startAt, silentRanges: await this.getSilentRanges(recording) };
+  }
+
+  async savePosition(recordingId: string, position: number): Promise<void> {
+    await this.storage.savePlaybackPosition(recordingId, position);
+  }
+
+  async getPlaybackRate(): Promise<number | undefined> {
+    return this.storage.getSetting<number>('playbackRate');
+  }
+
+  async savePlaybackRate(rate: number): Promise<void> {
+    await this.storage.saveSetting('playbackRate', rate);
+  }
+
+  // Silent ranges are detected on first skip-silence playback and cached on the recording
+  private async getSilentRanges(recording: Recording): Promise<TimeRange[]> {
+    const settings = await this.storage.getSetting<SilenceSettings>('silence');
+    if (!settings?.skipSilenceOnPlayback) return [];
+
+    const stored = await this.storage.getRecording(recording.id);
+    if (stored?.silentRanges) return stored.silentRanges;
+
+    try {
+      const audioBlob = await this.storage.getAudioBlob(recording.id);
+      if (!audioBlob) return [];
+
+      const samples = await this.processing.decodeToMono(audioBlob, SILENCE_ANALYSIS_SAMPLE_RATE);
+      const silentRanges = this.processing.detectSilentRanges(
+        samples,
+        SILENCE_ANALYSIS_SAMPLE_RATE,
+        MIN_SKIPPED_SILENCE_SECONDS
+      );
+      await this.storage.updateRecording(recording.id, { silentRanges });
+      return silentRanges;
+    } catch (error) {
+      // Play normally if the audio can't be analysed
+      console.error('Failed to detect silence:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,106 @@
+export type Route =
+  | { name: 'recorder' }
+  | { name: 'list' }
+  | { name: 'recording'; id: string }
+  | { name: 'settings' };
+
+// Stored with every history entry the app creates
+type HistoryState = {
+  index: number; // 0 for the entry the app was opened with
+}
+
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'list':
+      return '/recordings';
+    case 'recording':
+      return `/recordings/${encodeURIComponent(route.id)}`;
+    case 'settings':
+      return '/settings';
+    default:
+      return '/';
+  }
+}
+
+// Unknown paths open the recorder rather than an error page
+export function parsePath(pathname: string): Route {
+  const parts = pathname.split('/').filter(Boolean);
+
+  if (parts[0] === 'recordings' && parts.length === 1) {
+    return { name: 'list' };
+  }
+  if (parts[0] === 'recordings' && parts.length === 2) {
+    return { name: 'recording', id: decodeURIComponent(parts[1]) };
+  }
+  if (parts[0] === 'settings' && parts.length === 1) {
+    return { name: 'settings' };
+  }
+  return { name: 'recorder' };
+}
+
+// Client-side routing on top of the History API, so the back button stays
+// inside the app and recordings can be bookmarked and linked to
+export class RouterService {
+  private route: Route;
+  private index: number;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.route = parsePath(window.location.pathname);
+    this.index = (window.history.state as HistoryState | null)?.index ?? 0;
+    window.history.replaceState({ index: this.index } satisfies HistoryState, '');
+
+    window.addEventListener('popstate', (event) => {
+      this.index = (event.state as HistoryState | null)?.index ?? 0;
+      this.update();
+    });
+  }
+
+  // Notified whenever the current route changes
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  getRoute(): Route {
+    return this.route;
+  }
+
+  navigate(route: Route, options: { replace?: boolean } = {}): void {
+    const path = routePath(route);
+    if (path === window.location.pathname) return;
+
+    if (options.replace) {
+      window.history.replaceState({ index: this.index } satisfies HistoryState, '', path);
+    } else {
+      this.index++;
+      window.history.pushState({ index: this.index } satisfies HistoryState, '', path);
+    }
+
+    this.update();
+    window.scrollTo(0, 0);
+  }
+
+  // Go back within the app; a page opened from a deep link has nothing to go
+  // back to, so replace it with the fallback instead of leaving the app
+  back(fallback: Route = { name: 'recorder' }): void {
+    if (this.index > 0) {
+      window.history.back();
+    } else {
+      this.navigate(fallback, { replace: true });
+    }
+  }
+
+  private update(): void {
+    this.route = parsePath(window.location.pathname);
+    this.notify();
+  }
+}
+
+export const router = new RouterService();
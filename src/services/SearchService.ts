@@ -0,0 +1,103 @@
+import { StorageService } from './StorageService';
+import { tokenize } from './SearchTokenizer';
+import type { Recording } from '../types/Recording';
+
+export type SnippetPart = {
+  text: string;
+  highlight: boolean;
+}
+
+export type SearchResult = {
+  recording: Recording;
+  snippet: SnippetPart[];
+  segmentStart?: number; // Start of the first matching transcript segment
+}
+
+const SNIPPET_CONTEXT_CHARS = 60;
+
+export class SearchService {
+  private storage: StorageService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  // Every query word must match (as a word prefix) the title or transcript
+  async search(query: string): Promise<SearchResult[]> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    let matchingIds: string[] | null = null;
+    for (const term of terms) {
+      const ids = new Set(await this.storage.findRecordingIdsByTokenPrefix(term));
+      const candidates: string[] = matchingIds ?? Array.from(ids);
+      matchingIds = candidates.filter(id => ids.has(id));
+      if (matchingIds.length === 0) return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const id of matchingIds ?? []) {
+      const recording = await this.storage.getRecording(id);
+      if (recording) {
+        results.push(this.buildResult(recording, terms));
+      }
+    }
+
+    // Newest first, like the list itself
+    return results.sort((a, b) => b.recording.date.getTime() - a.recording.date.getTime());
+  }
+
+  private buildResult(recording: Recording, terms: string[]): SearchResult {
+    const pattern = this.buildPattern(terms);
+    const source = recording.transcript && pattern.test(recording.transcript)
+      ? recording.transcript
+      : recording.title || recording.transcript || '';
+
+    const segment = recording.segments?.find(seg => this.buildPattern(terms).test(seg.text));
+
+    return {
+      recording,
+      snippet: this.buildSnippet(source, terms),
+      segmentStart: segment?.start,
+    };
+  }
+
+  // Matches any of the terms at the start of a word
+  private buildPattern(terms: string[], flags = 'iu'): RegExp {
+    const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})`, flags);
+  }
+
+  private buildSnippet(text: string, terms: string[]): SnippetPart[] {
+    const first = this.buildPattern(terms).exec(text);
+    const center = first ? first.index : 0;
+
+    let start = Math.max(0, center - SNIPPET_CONTEXT_CHARS);
+    let end = Math.min(text.length, center + SNIPPET_CONTEXT_CHARS * 2);
+
+    // Don't cut words in half at the edges
+    while (start > 0 && /\S/.test(text[start - 1])) start--;
+    while (end < text.length && /\S/.test(text[end])) end++;
+
+    const excerpt = text.slice(start, end);
+    const parts: SnippetPart[] = [];
+    if (start > 0) parts.push({ text: '…', highlight: false });
+
+    const pattern = this.buildPattern(terms, 'giu');
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(excerpt)) !== null) {
+      if (match.index > lastIndex) {
+        parts.push({ text: excerpt.slice(lastIndex, match.index), highlight: false });
+      }
+      parts.push({ text: match[0], highlight: true });
+      lastIndex = match.index + match[0].length;
+    }
+    if (lastIndex < excerpt.length) {
+      parts.push({ text: excerpt.slice(lastIndex), highlight: false });
+    }
+
+    if (end < text.length) parts.push({ text: '…', highlight: false });
+    return parts;
+  }
+}
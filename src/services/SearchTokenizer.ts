@@ -0,0 +1,18 @@
+// Shared by StorageService (when indexing) and SearchService (when querying)
+// so both sides agree on what a token is.
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) || []);
+}
+
+// Unique tokens for a recording's searchable fields
+export function indexTokens(...fields: Array<string | undefined>): string[] {
+  const tokens = new Set<string>();
+  fields.forEach(field => {
+    if (field) {
+      tokenize(field).forEach(token => tokens.add(token));
+    }
+  });
+  return Array.from(tokens);
+}
@@ -0,0 +1,70 @@
+import { StorageService } from './StorageService';
+import type { Recording } from '../types/Recording';
+import type { RecordingSession } from '../types/RecordingSession';
+
+// Only used without Web Locks: sessions being recorded are updated every 100ms,
+// though not while paused
+const ORPHANED_AFTER_MS = 5000;
+const SESSION_LOCK_PREFIX = 'recording-session:';
+
+// Held by the recording tab for as long as it may still write to the session.
+// The browser releases it when the tab is closed or crashes.
+export const getSessionLockName = (sessionId: string): string => `${SESSION_LOCK_PREFIX}${sessionId}`;
+
+export class SessionRecoveryService {
+  private storage: StorageService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  async findOrphanedSessions(): Promise<RecordingSession[]> {
+    const sessions = await this.storage.getAllSessions();
+    const liveIds = await this.getLiveSessionIds();
+    if (liveIds) {
+      return sessions.filter(session => !liveIds.has(session.id));
+    }
+
+    const now = Date.now();
+    return sessions.filter(session => now - session.updatedAt > ORPHANED_AFTER_MS);
+  }
+
+  // Sessions some tab is still recording, including paused ones; null without Web Locks
+  private async getLiveSessionIds(): Promise<Set<string> | null> {
+    if (!navigator.locks) return null;
+
+    const { held = [], pending = [] } = await navigator.locks.query();
+    return new Set(
+      [...held, ...pending]
+        .map(lock => lock.name ?? '')
+        .filter(name => name.startsWith(SESSION_LOCK_PREFIX))
+        .map(name => name.slice(SESSION_LOCK_PREFIX.length))
+    );
+  }
+
+  // Turn an unfinished session into a normal recording; returns null if it held no audio
+  async recover(session: RecordingSession): Promise<Recording | null> {
+    const audioBlob = await this.storage.getSessionAudio(session);
+
+    if (audioBlob.size === 0) {
+      await this.storage.deleteSession(session.id);
+      return null;
+    }
+
+    const recording: Recording = {
+      id: session.startedAt.toString(),
+      audioBlob,
+      duration: session.duration,
+      date: new Date(session.startedAt),
+      title: 'Recovered recording',
+    };
+
+    await this.storage.saveRecording(recording);
+    await this.storage.deleteSession(session.id);
+    return recording;
+  }
+
+  async discard(session: RecordingSession): Promise<void> {
+    await this.storage.deleteSession(session.id);
+  }
+}
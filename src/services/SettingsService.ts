@@ -0,0 +1,149 @@
+import { StorageService } from './StorageService';
+import { transcriptionProviderRegistry } from './TranscriptionProviderRegistry';
+import type { TranscriptionProviderConfig } from './TranscriptionProviderRegistry';
+import type { SummarizationConfig } from './SummarizationService';
+import type { ApiSettings } from '../types/Settings';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_SUMMARY_MODEL = 'gpt-4o-mini';
+const API_SETTINGS_KEY = 'api';
+
+// Build-time values still work as defaults until something is saved on the settings screen
+const getDefaultApiSettings = (): ApiSettings => ({
+  providerId: import.meta.env.VITE_TRANSCRIPTION_PROVIDER || 'openai',
+  apiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
+  baseUrl: import.meta.env.VITE_TRANSCRIPTION_BASE_URL || '',
+  model: import.meta.env.VITE_TRANSCRIPTION_MODEL || '',
+  language: '',
+  prompt: '',
+  summaryBaseUrl: import.meta.env.VITE_SUMMARY_BASE_URL || '',
+  summaryApiKey: import.meta.env.VITE_SUMMARY_API_KEY || '',
+  summaryModel: import.meta.env.VITE_SUMMARY_MODEL || '',
+});
+
+export class SettingsService {
+  private storage: StorageService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  async getApiSettings(): Promise<ApiSettings> {
+    const saved = await this.storage.getSetting<Partial<ApiSettings>>(API_SETTINGS_KEY);
+    return { ...getDefaultApiSettings(), ...saved };
+  }
+
+  async saveApiSettings(settings: ApiSettings): Promise<void> {
+    const errors = this.validateApiSettings(settings);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+    await this.storage.saveSetting(API_SETTINGS_KEY, this.normalize(settings));
+  }
+
+  // Problems that would make every request fail; empty when the settings look usable
+  validateApiSettings(settings: ApiSettings): string[] {
+    const errors: string[] = [];
+
+    if (!transcriptionProviderRegistry.getProviderIds().includes(settings.providerId)) {
+      errors.push(`Unknown transcription provider: ${settings.providerId}`);
+    }
+    if (settings.providerId === 'openai' && !settings.apiKey.trim()) {
+      errors.push('An API key is required for OpenAI');
+    }
+    if (settings.providerId === 'openai-compatible') {
+      if (!settings.baseUrl.trim()) {
+        errors.push('Enter the server URL');
+      } else if (!this.isHttpUrl(settings.baseUrl)) {
+        errors.push('The server URL must start with http:// or https://');
+      }
+    }
+    if (settings.summaryBaseUrl.trim() && !this.isHttpUrl(settings.summaryBaseUrl)) {
+      errors.push('The summary server URL must start with http:// or https://');
+    }
+    if (settings.language.trim() && !/^[a-z]{2}$/i.test(settings.language.trim())) {
+      errors.push('Language must be a two-letter code such as "en" or "de"');
+    }
+
+    return errors;
+  }
+
+  // Check the given (possibly unsaved) settings against the transcription server
+  async testConnection(settings: ApiSettings): Promise<void> {
+    const errors = this.validateApiSettings(settings);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+    await transcriptionProviderRegistry.create(this.toProviderConfig(this.normalize(settings))).testConnection();
+  }
+
+  async getTranscriptionProviderConfig(): Promise<TranscriptionProviderConfig> {
+    return this.toProviderConfig(await this.getApiSettings());
+  }
+
+  async getSummarizationConfig(): Promise<SummarizationConfig> {
+    const settings = await this.getApiSettings();
+    const transcriptionUrl = settings.providerId === 'openai' ? OPENAI_BASE_URL : settings.baseUrl;
+    const baseUrl = settings.summaryBaseUrl || transcriptionUrl;
+
+    if (!baseUrl) {
+      throw new Error('Summary server URL not configured');
+    }
+
+    // Never hand the transcription key to a different server
+    const apiKey = settings.summaryApiKey ||
+      (this.isSameOrigin(baseUrl, transcriptionUrl) ? settings.apiKey : '');
+
+    if (baseUrl === OPENAI_BASE_URL && !apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    return {
+      baseUrl,
+      apiKey: apiKey || undefined,
+      model: settings.summaryModel || DEFAULT_SUMMARY_MODEL,
+    };
+  }
+
+  private toProviderConfig(settings: ApiSettings): TranscriptionProviderConfig {
+    return {
+      providerId: settings.providerId,
+      apiKey: settings.apiKey || undefined,
+      baseUrl: settings.baseUrl || undefined,
+      model: settings.model || undefined,
+      language: settings.language || undefined,
+      prompt: settings.prompt || undefined,
+    };
+  }
+
+  private normalize(settings: ApiSettings): ApiSettings {
+    return {
+      ...settings,
+      apiKey: settings.apiKey.trim(),
+      baseUrl: settings.baseUrl.trim(),
+      model: settings.model.trim(),
+      language: settings.language.trim().toLowerCase(),
+      prompt: settings.prompt.trim(),
+      summaryBaseUrl: settings.summaryBaseUrl.trim(),
+      summaryApiKey: settings.summaryApiKey.trim(),
+      summaryModel: settings.summaryModel.trim(),
+    };
+  }
+
+  private isSameOrigin(a: string, b: string): boolean {
+    try {
+      return new URL(a).origin === new URL(b).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  private isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value.trim());
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+const INBOX_CACHE = 'shared-files-inbox';
+
+// Posted by the service worker to open windows once the files of a share are in
+// the inbox, so an unlocked window can import them right away. The window answers
+// on the transferred port with 'accepted', or 'declined' if it is locked. Files
+// stay in the inbox until imported, so a window closing mid-import loses nothing.
+export const SHARED_FILES_MESSAGE = 'shared-files';
+
+export type SharedFilesMessage = {
+  type: typeof SHARED_FILES_MESSAGE;
+  keys: string[];
+}
+
+export type SharedFilesReply = 'declined' | 'accepted';
+
+// Files handed to the app by the share sheet or the operating system wait here
+// while no window is unlocked to import them. They are not encrypted, so they
+// are removed as soon as they have been imported. Uses the Cache API so the
+// service worker and the page can both reach it.
+export class ShareInboxService {
+  // Returns the keys of the added files
+  async add(files: File[]): Promise<string[]> {
+    const cache = await caches.open(INBOX_CACHE);
+    const receivedAt = Date.now();
+    const keys: string[] = [];
+
+    for (const [index, file] of files.entries()) {
+      const request = new Request(`/shared-files/${receivedAt}-${index}`);
+      keys.push(request.url);
+      await cache.put(
+        request,
+        new Response(file, {
+          headers: {
+            'Content-Type': file.type || 'application/octet-stream',
+            'X-File-Name': encodeURIComponent(file.name),
+            'X-Last-Modified': String(file.lastModified),
+          },
+        })
+      );
+    }
+
+    return keys;
+  }
+
+  // Request URLs of the waiting files, oldest first
+  async keys(): Promise<string[]> {
+    // The Cache API only exists in secure contexts
+    if (typeof caches === 'undefined') return [];
+
+    const cache = await caches.open(INBOX_CACHE);
+    return (await cache.keys()).map(request => request.url);
+  }
+
+  // Read one file at a time; shared recordings can be large
+  async get(key: string): Promise<File | undefined> {
+    const cache = await caches.open(INBOX_CACHE);
+    const response = await cache.match(key);
+    if (!response) return undefined;
+
+    const type = response.headers.get('Content-Type') || '';
+    const name = decodeURIComponent(response.headers.get('X-File-Name') || 'Shared audio');
+    const lastModified = Number(response.headers.get('X-Last-Modified')) || Date.now();
+
+    return new File([await response.blob()], name, { type, lastModified });
+  }
+
+  async remove(key: string): Promise<void> {
+    const cache = await caches.open(INBOX_CACHE);
+    await cache.delete(key);
+  }
+}
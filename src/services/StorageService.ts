@@ -1,29 +1,198 @@
 import { openDB } from 'idb';
 import type { DBSchema, IDBPDatabase } from 'idb';
 import type { Recording } from '../types/Recording';
+import type { TranscriptionJob } from '../types/TranscriptionJob';
+import type { TranscriptVersion } from '../types/TranscriptVersion';
+import type { RecordingSession, RecordingSessionChunk } from '../types/RecordingSession';
+import { indexTokens } from './SearchTokenizer';
+import { encryption } from './EncryptionService';
+import type { EncryptedData, EncryptionConfig } from './EncryptionService';
+
+// Legacy v1/v2 rows kept the audio bytes and a stale Blob URL inline
+type LegacyRecording = Recording & {
+  audioData?: ArrayBuffer;
+  uri?: string;
+};
+
+export type PlaybackPosition = {
+  recordingId: string;
+  position: number; // Seconds
+  updatedAt: number;
+}
+
+export type StoredAudio = {
+  id: string; // Same as the recording id
+  data: ArrayBuffer;
+  mimeType: string;
+  iv?: Uint8Array<ArrayBuffer>; // Set when data is encrypted
+}
+
+// With encryption on, the fields below are stored only inside `sealed`. Dates,
+// durations, folders and tags stay readable so the indexes keep working.
+type SealedRecordingFields = Pick<Recording, 'title' | 'transcript' | 'segments' | 'summary'>;
+type SealedVersionFields = Pick<TranscriptVersion, 'text' | 'segments'>;
+
+const SEALED_RECORDING_FIELDS: Array<keyof SealedRecordingFields> = ['title', 'transcript', 'segments', 'summary'];
+
+type StoredRecording = Recording & {
+  sealed?: EncryptedData;
+}
+
+type StoredTranscriptVersion = Omit<TranscriptVersion, 'text'> & Partial<SealedVersionFields> & {
+  sealed?: EncryptedData;
+}
+
+const ENCRYPTION_SETTING = 'encryption';
+const ENCRYPTION_MIGRATION_SETTING = 'encryptionMigrationPending';
 
 interface VoiceRecorderDB extends DBSchema {
   recordings: {
     key: string;
-    value: Recording;
-    indexes: { 'by-date': Date };
+    value: StoredRecording;
+    indexes: { 'by-date': Date; 'by-token': string; 'by-folder': string; 'by-tag': string };
+  };
+  audio: {
+    key: string;
+    value: StoredAudio;
+  };
+  transcriptionJobs: {
+    key: string;
+    value: TranscriptionJob;
+    indexes: { 'by-recording': string };
+  };
+  sessions: {
+    key: string;
+    value: RecordingSession;
+  };
+  sessionChunks: {
+    key: [string, number];
+    value: RecordingSessionChunk;
+  };
+  settings: {
+    key: string;
+    value: { key: string; value: unknown };
+  };
+  playbackPositions: {
+    key: string;
+    value: PlaybackPosition;
+  };
+  transcriptVersions: {
+    key: string;
+    value: StoredTranscriptVersion;
+    indexes: { 'by-recording': string };
   };
 }
 
+// Blob URLs are shared by every StorageService instance so that at most
+// one URL per recording is alive, and they can be revoked from anywhere
+const audioUrls = new Map<string, string>();
+
 export class StorageService {
   private dbName = 'VoiceRecorderDB';
-  private version = 1;
+  private version = 9;
   private db: IDBPDatabase<VoiceRecorderDB> | null = null;
 
   private async getDB(): Promise<IDBPDatabase<VoiceRecorderDB>> {
     if (!this.db) {
       this.db = await openDB<VoiceRecorderDB>(this.dbName, this.version, {
-        upgrade(db) {
+        async upgrade(db, oldVersion, _newVersion, transaction) {
           // Create recordings object store
           if (!db.objectStoreNames.contains('recordings')) {
             const store = db.createObjectStore('recordings', { keyPath: 'id' });
             store.createIndex('by-date', 'date');
           }
+
+          // v2: persistent transcription job queue
+          if (oldVersion < 2) {
+            const jobs = db.createObjectStore('transcriptionJobs', { keyPath: 'id' });
+            jobs.createIndex('by-recording', 'recordingId');
+          }
+
+          // v3: audio bytes live in their own store so listing recordings stays cheap
+          if (oldVersion < 3) {
+            const audioStore = db.createObjectStore('audio', { keyPath: 'id' });
+            const recordingsStore = transaction.objectStore('recordings');
+
+            let cursor = await recordingsStore.openCursor();
+            while (cursor) {
+              const { audioData, ...metadata } = cursor.value as LegacyRecording;
+              // Blob URLs from earlier sessions are dead, drop them
+              delete metadata.uri;
+
+              if (audioData) {
+                await audioStore.put({
+                  id: metadata.id,
+                  data: audioData,
+                  mimeType: metadata.mimeType || 'audio/webm',
+                });
+              }
+              await cursor.update(metadata);
+              cursor = await cursor.continue();
+            }
+          }
+
+          // v4: inverted index over title and transcript words (multiEntry on searchTokens)
+          if (oldVersion < 4) {
+            const recordingsStore = transaction.objectStore('recordings');
+            recordingsStore.createIndex('by-token', 'searchTokens', { multiEntry: true });
+
+            let cursor = await recordingsStore.openCursor();
+            while (cursor) {
+              const rec = cursor.value;
+              await cursor.update({ ...rec, searchTokens: indexTokens(rec.title, rec.transcript) });
+              cursor = await cursor.continue();
+            }
+          }
+
+          // v5: folders and tags for organizing recordings
+          if (oldVersion < 5) {
+            const recordingsStore = transaction.objectStore('recordings');
+            recordingsStore.createIndex('by-folder', 'folder');
+            recordingsStore.createIndex('by-tag', 'tags', { multiEntry: true });
+          }
+
+          // v6: crash-safe in-progress recordings
+          if (oldVersion < 6) {
+            db.createObjectStore('sessions', { keyPath: 'id' });
+            db.createObjectStore('sessionChunks', { keyPath: ['sessionId', 'index'] });
+          }
+
+          // v7: user preferences
+          if (oldVersion < 7) {
+            db.createObjectStore('settings', { keyPath: 'key' });
+          }
+
+          // v8: where playback stopped, per recording
+          if (oldVersion < 8) {
+            db.createObjectStore('playbackPositions', { keyPath: 'recordingId' });
+          }
+
+          // v9: transcript history; existing transcripts become the first version
+          if (oldVersion < 9) {
+            const versions = db.createObjectStore('transcriptVersions', { keyPath: 'id' });
+            versions.createIndex('by-recording', 'recordingId');
+
+            let cursor = await transaction.objectStore('recordings').openCursor();
+            while (cursor) {
+              const rec = cursor.value;
+              if (rec.transcript) {
+                await versions.put({
+                  id: `${rec.id}-initial`,
+                  recordingId: rec.id,
+                  source: 'machine',
+                  text: rec.transcript,
+                  segments: rec.segments,
+                  createdAt: new Date(rec.date).getTime(),
+                });
+              }
+              cursor = await cursor.continue();
+            }
+          }
+        },
+        blocking: () => {
+          // Let a newer version of the app in another tab upgrade the database
+          this.db?.close();
+          this.db = null;
         },
       });
     }
@@ -32,108 +201,400 @@ export class StorageService {
 
   async saveRecording(recording: Recording): Promise<void> {
     const db = await this.getDB();
+    const { audioBlob, ...rest } = recording;
 
-    // Convert Blob to ArrayBuffer for storage (IndexedDB compatibility)
-    if (recording.audioBlob) {
-      const arrayBuffer = await recording.audioBlob.arrayBuffer();
-      const mimeType = recording.audioBlob.type;
-
-      // Store without the Blob (only ArrayBuffer)
-      const recordingToStore = {
-        ...recording,
-        audioBlob: undefined, // Don't store Blob directly
-        audioData: arrayBuffer,
-        mimeType: mimeType,
-      };
+    if (audioBlob) {
+      // Convert Blob to ArrayBuffer for storage (IndexedDB compatibility).
+      // Encrypt before opening the transaction, which would not survive the wait.
+      const audio = await this.sealAudio(recording.id, await audioBlob.arrayBuffer(), audioBlob.type);
+      const metadata = await this.sealRecording({ ...rest, mimeType: audioBlob.type });
 
-      await db.put('recordings', recordingToStore);
+      const tx = db.transaction(['recordings', 'audio'], 'readwrite');
+      await Promise.all([
+        tx.objectStore('recordings').put(metadata),
+        tx.objectStore('audio').put(audio),
+        tx.done,
+      ]);
     } else {
-      await db.put('recordings', recording);
+      await db.put('recordings', await this.sealRecording(rest));
     }
   }
 
+  // Metadata only: audio is loaded on demand with getAudioBlob/getAudioUrl
   async getAllRecordings(): Promise<Recording[]> {
     const db = await this.getDB();
     const recordings = await db.getAll('recordings');
-
-    // Convert date strings to Date objects and ArrayBuffer to Blob
-    return recordings.map(rec => {
-      const recording: Recording = {
-        ...rec,
-        date: new Date(rec.date),
-      };
-
-      // Reconstruct Blob from ArrayBuffer
-      if (rec.audioData && rec.mimeType) {
-        recording.audioBlob = new Blob([rec.audioData], { type: rec.mimeType });
-        // Regenerate Blob URL if needed
-        if (!recording.uri) {
-          recording.uri = URL.createObjectURL(recording.audioBlob);
-        }
-      }
-
-      return recording;
-    });
+    return Promise.all(recordings.map(rec => this.openRecording(rec)));
   }
 
   async getRecording(id: string): Promise<Recording | undefined> {
     const db = await this.getDB();
     const rec = await db.get('recordings', id);
+    return rec ? this.openRecording(rec) : undefined;
+  }
 
-    if (rec) {
-      const recording: Recording = {
-        ...rec,
-        date: new Date(rec.date),
-      };
-
-      // Reconstruct Blob from ArrayBuffer
-      if (rec.audioData && rec.mimeType) {
-        recording.audioBlob = new Blob([rec.audioData], { type: rec.mimeType });
-        // Regenerate Blob URL if needed
-        if (!recording.uri) {
-          recording.uri = URL.createObjectURL(recording.audioBlob);
-        }
-      }
+  // Ids of recordings containing a word that starts with the given prefix
+  async findRecordingIdsByTokenPrefix(prefix: string): Promise<string[]> {
+    // Search tokens would give the words away, so encrypted libraries have no
+    // token index and are matched in memory after decrypting instead
+    if (await this.isEncrypted()) {
+      const recordings = await this.getAllRecordings();
+      return recordings
+        .filter(rec => indexTokens(rec.title, rec.transcript).some(token => token.startsWith(prefix)))
+        .map(rec => rec.id);
+    }
+
+    const db = await this.getDB();
+    return db.getAllKeysFromIndex(
+      'recordings',
+      'by-token',
+      IDBKeyRange.bound(prefix, prefix + '\uffff')
+    );
+  }
+
+  async getRecordingIdsByFolder(folder: string): Promise<string[]> {
+    const db = await this.getDB();
+    return db.getAllKeysFromIndex('recordings', 'by-folder', folder);
+  }
 
-      return recording;
+  async getRecordingIdsByTag(tag: string): Promise<string[]> {
+    const db = await this.getDB();
+    return db.getAllKeysFromIndex('recordings', 'by-tag', tag);
+  }
+
+  async getFolders(): Promise<string[]> {
+    return this.getUniqueIndexKeys('by-folder');
+  }
+
+  async getTags(): Promise<string[]> {
+    return this.getUniqueIndexKeys('by-tag');
+  }
+
+  private async getUniqueIndexKeys(indexName: 'by-folder' | 'by-tag'): Promise<string[]> {
+    const db = await this.getDB();
+    const keys: string[] = [];
+
+    let cursor = await db.transaction('recordings').store.index(indexName).openKeyCursor(null, 'nextunique');
+    while (cursor) {
+      keys.push(cursor.key);
+      cursor = await cursor.continue();
+    }
+
+    return keys;
+  }
+
+  async getAudioBlob(id: string): Promise<Blob | undefined> {
+    const db = await this.getDB();
+    const audio = await db.get('audio', id);
+
+    if (audio) {
+      return new Blob([await this.openBytes(audio)], { type: audio.mimeType });
     }
 
     return undefined;
   }
 
+  // Returns a cached Blob URL for playback; revoke it when no longer playing
+  async getAudioUrl(id: string): Promise<string | undefined> {
+    const cached = audioUrls.get(id);
+    if (cached) return cached;
+
+    const blob = await this.getAudioBlob(id);
+    if (!blob) return undefined;
+
+    const url = URL.createObjectURL(blob);
+    audioUrls.set(id, url);
+    return url;
+  }
+
+  revokeAudioUrl(id: string): void {
+    const url = audioUrls.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      audioUrls.delete(id);
+    }
+  }
+
+  // Free every Blob URL except the one still in use
+  revokeAudioUrls(exceptId?: string): void {
+    Array.from(audioUrls.keys())
+      .filter(id => id !== exceptId)
+      .forEach(id => this.revokeAudioUrl(id));
+  }
+
   async updateRecording(id: string, updates: Partial<Recording>): Promise<void> {
     const db = await this.getDB();
     const recording = await db.get('recordings', id);
+    if (!recording) return;
 
-    if (recording) {
-      const updated = { ...recording, ...updates };
-      await db.put('recordings', updated);
+    // Flags like isTranscribing can change while locked without touching the sealed fields
+    if (!SEALED_RECORDING_FIELDS.some(field => field in updates)) {
+      await db.put('recordings', { ...recording, ...updates });
+      return;
     }
+
+    // Sealing also keeps the search index in step with the searchable fields
+    const updated = { ...(await this.openRecording(recording)), ...updates };
+    await db.put('recordings', await this.sealRecording(updated));
   }
 
   async deleteRecording(id: string): Promise<void> {
     const db = await this.getDB();
-    const recording = await db.get('recordings', id);
 
     // Revoke the Blob URL to free memory
-    if (recording && recording.uri) {
-      URL.revokeObjectURL(recording.uri);
-    }
+    this.revokeAudioUrl(id);
 
     await db.delete('recordings', id);
+    await db.delete('audio', id);
+    await db.delete('playbackPositions', id);
+
+    const versionKeys = await db.getAllKeysFromIndex('transcriptVersions', 'by-recording', id);
+    for (const key of versionKeys) {
+      await db.delete('transcriptVersions', key);
+    }
+
+    const job = await db.getFromIndex('transcriptionJobs', 'by-recording', id);
+    if (job) {
+      await db.delete('transcriptionJobs', job.id);
+    }
   }
 
   async clearAll(): Promise<void> {
     const db = await this.getDB();
-    const recordings = await db.getAll('recordings');
 
     // Revoke all Blob URLs
-    recordings.forEach(rec => {
-      if (rec.uri) {
-        URL.revokeObjectURL(rec.uri);
-      }
-    });
+    this.revokeAudioUrls();
 
     await db.clear('recordings');
+    await db.clear('audio');
+    await db.clear('transcriptionJobs');
+    await db.clear('playbackPositions');
+    await db.clear('transcriptVersions');
+  }
+
+  async saveTranscriptionJob(job: TranscriptionJob): Promise<void> {
+    const db = await this.getDB();
+    await db.put('transcriptionJobs', job);
+  }
+
+  async getTranscriptionJob(id: string): Promise<TranscriptionJob | undefined> {
+    const db = await this.getDB();
+    return db.get('transcriptionJobs', id);
+  }
+
+  async getTranscriptionJobForRecording(recordingId: string): Promise<TranscriptionJob | undefined> {
+    const db = await this.getDB();
+    return db.getFromIndex('transcriptionJobs', 'by-recording', recordingId);
+  }
+
+  async getAllTranscriptionJobs(): Promise<TranscriptionJob[]> {
+    const db = await this.getDB();
+    return db.getAll('transcriptionJobs');
+  }
+
+  async deleteTranscriptionJob(id: string): Promise<void> {
+    const db = await this.getDB();
+    await db.delete('transcriptionJobs', id);
+  }
+
+  async saveSession(session: RecordingSession): Promise<void> {
+    const db = await this.getDB();
+    await db.put('sessions', session);
+  }
+
+  // Store one recorder chunk and bump the session's progress in the same transaction
+  async appendSessionChunk(sessionId: string, index: number, data: ArrayBuffer, duration: number): Promise<void> {
+    const chunk = { sessionId, index, ...(await this.sealBytes(data)) };
+    const db = await this.getDB();
+    const tx = db.transaction(['sessions', 'sessionChunks'], 'readwrite');
+    const session = await tx.objectStore('sessions').get(sessionId);
+
+    if (session) {
+      await Promise.all([
+        tx.objectStore('sessionChunks').put(chunk),
+        tx.objectStore('sessions').put({ ...session, updatedAt: Date.now(), duration }),
+      ]);
+    }
+    await tx.done;
+  }
+
+  async getAllSessions(): Promise<RecordingSession[]> {
+    const db = await this.getDB();
+    return db.getAll('sessions');
+  }
+
+  async getSessionAudio(session: RecordingSession): Promise<Blob> {
+    const db = await this.getDB();
+    // Compound keys [sessionId, index] keep chunks in recording order
+    const chunks = await db.getAll(
+      'sessionChunks',
+      IDBKeyRange.bound([session.id, 0], [session.id, Infinity])
+    );
+    const data = await Promise.all(chunks.map(chunk => this.openBytes(chunk)));
+    return new Blob(data, { type: session.mimeType });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.getDB();
+    const tx = db.transaction(['sessions', 'sessionChunks'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('sessions').delete(id),
+      tx.objectStore('sessionChunks').delete(IDBKeyRange.bound([id, 0], [id, Infinity])),
+      tx.done,
+    ]);
+  }
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const db = await this.getDB();
+    const entry = await db.get('settings', key);
+    return entry?.value as T | undefined;
+  }
+
+  async saveSetting<T>(key: string, value: T): Promise<void> {
+    const db = await this.getDB();
+    await db.put('settings', { key, value });
+  }
+
+  async getPlaybackPosition(recordingId: string): Promise<number | undefined> {
+    const db = await this.getDB();
+    return (await db.get('playbackPositions', recordingId))?.position;
+  }
+
+  async savePlaybackPosition(recordingId: string, position: number): Promise<void> {
+    const db = await this.getDB();
+    await db.put('playbackPositions', { recordingId, position, updatedAt: Date.now() });
+  }
+
+  async deletePlaybackPosition(recordingId: string): Promise<void> {
+    const db = await this.getDB();
+    await db.delete('playbackPositions', recordingId);
+  }
+
+  async saveTranscriptVersion(version: TranscriptVersion): Promise<void> {
+    const db = await this.getDB();
+    await db.put('transcriptVersions', await this.sealTranscriptVersion(version));
+  }
+
+  async getTranscriptVersions(recordingId: string): Promise<TranscriptVersion[]> {
+    const db = await this.getDB();
+    const stored = await db.getAllFromIndex('transcriptVersions', 'by-recording', recordingId);
+    const versions = await Promise.all(stored.map(version => this.openTranscriptVersion(version)));
+    return versions.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getEncryptionConfig(): Promise<EncryptionConfig | null> {
+    return (await this.getSetting<EncryptionConfig | null>(ENCRYPTION_SETTING)) ?? null;
+  }
+
+  async saveEncryptionConfig(config: EncryptionConfig | null): Promise<void> {
+    await this.saveSetting(ENCRYPTION_SETTING, config);
+  }
+
+  async isEncryptionMigrationPending(): Promise<boolean> {
+    return (await this.getSetting<boolean>(ENCRYPTION_MIGRATION_SETTING)) ?? false;
+  }
+
+  // Encrypt or decrypt every stored record to match the current setting. Records
+  // are converted one by one, so an interrupted run is finished by the next one.
+  async migrateEncryption(onProgress?: (done: number, total: number) => void): Promise<void> {
+    const encrypted = await this.isEncrypted();
+    const db = await this.getDB();
+    await this.saveSetting(ENCRYPTION_MIGRATION_SETTING, true);
+
+    const recordingIds = await db.getAllKeys('recordings');
+    const audioIds = await db.getAllKeys('audio');
+    const versionIds = await db.getAllKeys('transcriptVersions');
+    const chunkKeys = await db.getAllKeys('sessionChunks');
+    const total = recordingIds.length + audioIds.length + versionIds.length + chunkKeys.length;
+    let done = 0;
+    const step = () => onProgress?.(++done, total);
+
+    for (const id of recordingIds) {
+      const recording = await db.get('recordings', id);
+      if (recording && !!recording.sealed !== encrypted) {
+        await db.put('recordings', await this.sealRecording(await this.openRecording(recording)));
+      }
+      step();
+    }
+
+    // Audio is read one recording at a time to keep memory use flat
+    for (const id of audioIds) {
+      const audio = await db.get('audio', id);
+      if (audio && !!audio.iv !== encrypted) {
+        await db.put('audio', await this.sealAudio(id, await this.openBytes(audio), audio.mimeType));
+      }
+      step();
+    }
+
+    for (const id of versionIds) {
+      const version = await db.get('transcriptVersions', id);
+      if (version && !!version.sealed !== encrypted) {
+        await db.put('transcriptVersions', await this.sealTranscriptVersion(await this.openTranscriptVersion(version)));
+      }
+      step();
+    }
+
+    for (const [sessionId, index] of chunkKeys) {
+      const chunk = await db.get('sessionChunks', [sessionId, index]);
+      if (chunk && !!chunk.iv !== encrypted) {
+        await db.put('sessionChunks', { sessionId, index, ...(await this.sealBytes(await this.openBytes(chunk))) });
+      }
+      step();
+    }
+
+    await this.saveSetting(ENCRYPTION_MIGRATION_SETTING, false);
+  }
+
+  // The setting is loaded once per page, before the first write can happen;
+  // AppLockService keeps it in sync when another tab changes it
+  private async isEncrypted(): Promise<boolean> {
+    if (!encryption.isConfigured()) {
+      encryption.configure(await this.getEncryptionConfig());
+    }
+    return encryption.isEnabled();
+  }
+
+  private async sealRecording(recording: Omit<Recording, 'audioBlob'>): Promise<StoredRecording> {
+    if (!(await this.isEncrypted())) {
+      return { ...recording, searchTokens: indexTokens(recording.title, recording.transcript) };
+    }
+
+    const { title, transcript, segments, summary, ...rest } = recording;
+    const fields: SealedRecordingFields = { title, transcript, segments, summary };
+    return { ...rest, searchTokens: undefined, sealed: await encryption.encryptJSON(fields) };
+  }
+
+  private async openRecording(stored: StoredRecording): Promise<Recording> {
+    const { sealed, ...recording } = stored;
+    const fields = sealed ? await encryption.decryptJSON<SealedRecordingFields>(sealed) : {};
+
+    // Convert date strings to Date objects
+    return { ...recording, ...fields, date: new Date(recording.date) };
+  }
+
+  private async sealTranscriptVersion(version: TranscriptVersion): Promise<StoredTranscriptVersion> {
+    if (!(await this.isEncrypted())) return version;
+
+    const { text, segments, ...rest } = version;
+    const fields: SealedVersionFields = { text, segments };
+    return { ...rest, sealed: await encryption.encryptJSON(fields) };
+  }
+
+  private async openTranscriptVersion(stored: StoredTranscriptVersion): Promise<TranscriptVersion> {
+    const { sealed, ...version } = stored;
+    const fields = sealed ? await encryption.decryptJSON<SealedVersionFields>(sealed) : {};
+    return { ...version, text: '', ...fields };
+  }
+
+  private async sealAudio(id: string, data: ArrayBuffer, mimeType: string): Promise<StoredAudio> {
+    return { id, mimeType, ...(await this.sealBytes(data)) };
+  }
+
+  private async sealBytes(data: ArrayBuffer): Promise<{ data: ArrayBuffer; iv?: Uint8Array<ArrayBuffer> }> {
+    return (await this.isEncrypted()) ? encryption.encrypt(data) : { data };
+  }
+
+  private async openBytes(stored: { data: ArrayBuffer; iv?: Uint8Array<ArrayBuffer> }): Promise<ArrayBuffer> {
+    return stored.iv ? encryption.decrypt({ iv: stored.iv, data: stored.data }) : stored.data;
   }
 }
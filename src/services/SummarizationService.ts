@@ -0,0 +1,145 @@
+import { StorageService } from './StorageService';
+import { SettingsService } from './SettingsService';
+import type { Recording, RecordingSummary } from '../types/Recording';
+
+export type SummarizationConfig = {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string; // Optional for self-hosted servers without auth
+  model: string;
+}
+
+type PartialSummary = Pick<RecordingSummary, 'overview' | 'keyPoints' | 'actionItems'>;
+
+// Roughly 4k tokens; longer transcripts are summarized in parts and then combined
+const MAX_CHUNK_CHARACTERS = 16000;
+
+const SYSTEM_PROMPT = [
+  'You summarize transcripts of voice recordings such as meetings, lectures and notes.',
+  'Reply with only a JSON object of the form',
+  '{"overview": string, "keyPoints": string[], "actionItems": string[]}.',
+  'The overview is 2-4 sentences. Key points are short and factual.',
+  'Action items name the owner when the transcript mentions one; use an empty list if there are none.',
+  'Write in the language of the transcript.',
+].join(' ');
+
+const COMBINE_PROMPT = 'These are summaries of consecutive parts of one recording. ' +
+  'Merge them into a single summary of the whole recording, removing duplicates.';
+
+export class SummarizationService {
+  private storage: StorageService;
+  private settings: SettingsService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+    this.settings = new SettingsService(storage);
+  }
+
+  // Summarize the recording's transcript and store the result on it
+  async summarizeRecording(recording: Recording, signal?: AbortSignal): Promise<RecordingSummary> {
+    if (!recording.transcript?.trim()) {
+      throw new Error('No transcript to summarize');
+    }
+
+    const config = await this.settings.getSummarizationConfig();
+    const chunks = this.splitTranscript(recording.transcript);
+
+    let result: PartialSummary;
+    if (chunks.length === 1) {
+      result = await this.requestSummary(config, SYSTEM_PROMPT, chunks[0], signal);
+    } else {
+      const parts: PartialSummary[] = [];
+      for (const chunk of chunks) {
+        parts.push(await this.requestSummary(config, SYSTEM_PROMPT, chunk, signal));
+      }
+      result = await this.requestSummary(
+        config,
+        `${SYSTEM_PROMPT} ${COMBINE_PROMPT}`,
+        JSON.stringify(parts),
+        signal
+      );
+    }
+
+    const summary: RecordingSummary = { ...result, model: config.model, generatedAt: Date.now() };
+    await this.storage.updateRecording(recording.id, { summary });
+    return summary;
+  }
+
+  private async requestSummary(
+    config: SummarizationConfig,
+    systemPrompt: string,
+    content: string,
+    signal?: AbortSignal
+  ): Promise<PartialSummary> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content },
+        ],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Summarization failed: ${errorData.error?.message || response.statusText}`);
+    }
+
+    const data = await response.json();
+    return this.parseSummary(data.choices?.[0]?.message?.content || '');
+  }
+
+  // Local models often wrap the JSON in prose or code fences, so take the outermost object
+  private parseSummary(content: string): PartialSummary {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('Summarization failed: the model did not return a summary');
+    }
+
+    let parsed: Partial<Record<keyof PartialSummary, unknown>>;
+    try {
+      parsed = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      throw new Error('Summarization failed: the model returned invalid JSON');
+    }
+
+    const toList = (value: unknown): string[] =>
+      Array.isArray(value) ? value.map(item => String(item).trim()).filter(Boolean) : [];
+
+    return {
+      overview: typeof parsed.overview === 'string' ? parsed.overview.trim() : '',
+      keyPoints: toList(parsed.keyPoints),
+      actionItems: toList(parsed.actionItems),
+    };
+  }
+
+  // Split on sentence ends so no chunk starts mid-sentence
+  private splitTranscript(transcript: string): string[] {
+    const sentences = transcript.match(/[^.!?]+[.!?]*\s*/g) || [transcript];
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const sentence of sentences) {
+      if (current && current.length + sentence.length > MAX_CHUNK_CHARACTERS) {
+        chunks.push(current);
+        current = '';
+      }
+      current += sentence;
+    }
+    if (current.trim()) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+}
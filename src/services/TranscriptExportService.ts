@@ -0,0 +1,153 @@
+import type { Recording, TranscriptSegment } from '../types/Recording';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'json';
+
+export type TranscriptExport = {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const TRANSCRIPT_EXPORT_FORMATS: Array<{ format: TranscriptExportFormat; label: string }> = [
+  { format: 'srt', label: 'SRT subtitles' },
+  { format: 'vtt', label: 'WebVTT subtitles' },
+  { format: 'txt', label: 'Plain text' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+];
+
+const MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+};
+
+export class TranscriptExportService {
+  export(recording: Recording, format: TranscriptExportFormat): TranscriptExport {
+    if (!recording.transcript) {
+      throw new Error('No transcript available');
+    }
+
+    let content: string;
+    switch (format) {
+      case 'srt':
+        content = this.toSrt(this.getCues(recording));
+        break;
+      case 'vtt':
+        content = this.toVtt(this.getCues(recording));
+        break;
+      case 'md':
+        content = this.toMarkdown(recording);
+        break;
+      case 'json':
+        content = this.toJson(recording);
+        break;
+      default:
+        content = `${recording.transcript.trim()}\n`;
+    }
+
+    return {
+      fileName: `${this.getBaseName(recording)}.${format}`,
+      mimeType: MIME_TYPES[format],
+      content,
+    };
+  }
+
+  // Without segments the whole transcript becomes a single cue
+  private getCues(recording: Recording): TranscriptSegment[] {
+    if (recording.segments && recording.segments.length > 0) {
+      return recording.segments;
+    }
+    return [{ text: recording.transcript || '', start: 0, end: recording.duration }];
+  }
+
+  private toSrt(cues: TranscriptSegment[]): string {
+    return cues
+      .map((cue, index) => [
+        `${index + 1}`,
+        `${this.formatTimecode(cue.start, ',')} --> ${this.formatTimecode(cue.end, ',')}`,
+        cue.text.trim(),
+      ].join('\n'))
+      .join('\n\n') + '\n';
+  }
+
+  private toVtt(cues: TranscriptSegment[]): string {
+    const body = cues
+      .map(cue => [
+        `${this.formatTimecode(cue.start, '.')} --> ${this.formatTimecode(cue.end, '.')}`,
+        cue.text.trim(),
+      ].join('\n'))
+      .join('\n\n');
+    return `WEBVTT\n\n${body}\n`;
+  }
+
+  private toMarkdown(recording: Recording): string {
+    const lines = [
+      `# ${recording.title || 'Recording'}`,
+      '',
+      `- **Date:** ${recording.date.toLocaleDateString()} ${recording.date.toLocaleTimeString()}`,
+      `- **Duration:** ${this.formatDuration(recording.duration)}`,
+      '',
+    ];
+
+    if (recording.summary) {
+      lines.push('## Summary', '', recording.summary.overview, '');
+      if (recording.summary.keyPoints.length > 0) {
+        lines.push('### Key points', '', ...recording.summary.keyPoints.map(point => `- ${point}`), '');
+      }
+      if (recording.summary.actionItems.length > 0) {
+        lines.push('### Action items', '', ...recording.summary.actionItems.map(item => `- [ ] ${item}`), '');
+      }
+    }
+
+    lines.push('## Transcript', '');
+
+    if (recording.segments && recording.segments.length > 0) {
+      recording.segments.forEach(segment => {
+        lines.push(`**[${this.formatDuration(segment.start)}]** ${segment.text.trim()}`, '');
+      });
+    } else {
+      lines.push(recording.transcript?.trim() || '', '');
+    }
+
+    return lines.join('\n');
+  }
+
+  private toJson(recording: Recording): string {
+    return JSON.stringify({
+      id: recording.id,
+      title: recording.title,
+      date: recording.date.toISOString(),
+      duration: recording.duration,
+      transcript: recording.transcript,
+      segments: recording.segments,
+      summary: recording.summary,
+    }, null, 2) + '\n';
+  }
+
+  // HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+  private formatTimecode(seconds: number, separator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const mins = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:` +
+      `${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+  }
+
+  private formatDuration(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  }
+
+  private getBaseName(recording: Recording): string {
+    if (recording.title) {
+      return recording.title.replace(/[\\/:*?"<>|]+/g, '-').trim();
+    }
+    return `recording-${recording.date.toISOString().slice(0, 19).replace(/:/g, '-')}`;
+  }
+}
@@ -0,0 +1,189 @@
+import { StorageService } from './StorageService';
+import type { Recording, RecordingSummary, TranscriptSegment, TranscriptionResult } from '../types/Recording';
+import type { TranscriptVersion, TranscriptVersionSource } from '../types/TranscriptVersion';
+
+export type DiffPart = {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Word-level LCS is quadratic; beyond this many cells the changed middle is shown as one block
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Every change to a transcript is kept as a version; the recording always holds the latest one
+export class TranscriptHistoryService {
+  private storage: StorageService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  async getVersions(recordingId: string): Promise<TranscriptVersion[]> {
+    return this.storage.getTranscriptVersions(recordingId);
+  }
+
+  // Store the output of a transcription run
+  async recordTranscription(recordingId: string, result: TranscriptionResult): Promise<void> {
+    const recording = await this.storage.getRecording(recordingId);
+    if (recording) {
+      await this.ensureBaseline(recording);
+    }
+    await this.addVersion(recordingId, 'machine', result.text, result.segments);
+    await this.storage.updateRecording(recordingId, {
+      transcript: result.text,
+      segments: result.segments,
+      summary: this.keptSummary(recording, result.text),
+    });
+  }
+
+  // When segments are shown one per line and the line count is unchanged, timings are kept
+  async saveEdit(recording: Recording, text: string): Promise<void> {
+    await this.ensureBaseline(recording);
+
+    const segments = this.realignSegments(recording.segments, text);
+    const transcript = segments ? segments.map(segment => segment.text).join(' ') : text.trim();
+
+    await this.addVersion(recording.id, 'manual', transcript, segments);
+    await this.storage.updateRecording(recording.id, {
+      transcript,
+      segments,
+      summary: this.keptSummary(recording, transcript),
+    });
+  }
+
+  // Reverting adds a copy of the old version on top, so nothing is lost
+  async revert(recording: Recording, version: TranscriptVersion): Promise<void> {
+    await this.ensureBaseline(recording);
+    await this.addVersion(recording.id, 'revert', version.text, version.segments);
+    await this.storage.updateRecording(recording.id, {
+      transcript: version.text,
+      segments: version.segments,
+      summary: this.keptSummary(recording, version.text),
+    });
+  }
+
+  // Text for editing: one segment per line when timings are available
+  getEditableText(recording: Recording): string {
+    if (recording.segments && recording.segments.length > 0) {
+      return recording.segments.map(segment => segment.text.trim()).join('\n');
+    }
+    return recording.transcript || '';
+  }
+
+  diff(from: string, to: string): DiffPart[] {
+    const a = this.splitWords(from);
+    const b = this.splitWords(to);
+
+    // Edits are usually local, so strip the common ends before the quadratic part
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const parts: DiffPart[] = [];
+    const push = (text: string, type: DiffPart['type']) => {
+      const last = parts[parts.length - 1];
+      if (last && last.type === type) {
+        last.text += text;
+      } else {
+        parts.push({ text, type });
+      }
+    };
+
+    a.slice(0, prefix).forEach(word => push(word, 'same'));
+    this.diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), push);
+    a.slice(a.length - suffix).forEach(word => push(word, 'same'));
+
+    return parts;
+  }
+
+  private diffMiddle(a: string[], b: string[], push: (text: string, type: DiffPart['type']) => void): void {
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+      a.forEach(word => push(word, 'removed'));
+      b.forEach(word => push(word, 'added'));
+      return;
+    }
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..], flattened
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        push(a[i++], 'same');
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push(a[i++], 'removed');
+      } else {
+        push(b[j++], 'added');
+      }
+    }
+    while (i < a.length) push(a[i++], 'removed');
+    while (j < b.length) push(b[j++], 'added');
+  }
+
+  // Words keep their trailing whitespace so the parts join back into readable text
+  private splitWords(text: string): string[] {
+    return text.match(/\S+\s*/g) || [];
+  }
+
+  private realignSegments(segments: TranscriptSegment[] | undefined, text: string): TranscriptSegment[] | undefined {
+    if (!segments || segments.length === 0) return undefined;
+
+    const lines = text.split('\n').map(line => line.trim());
+    if (lines.length !== segments.length) return undefined;
+
+    return segments.map((segment, index) => ({ ...segment, text: lines[index] }));
+  }
+
+  // A summary describes the text it was made from, so it is dropped once the transcript changes
+  private keptSummary(recording: Recording | undefined, transcript: string): RecordingSummary | undefined {
+    return recording?.transcript === transcript ? recording.summary : undefined;
+  }
+
+  // Transcripts from before history existed (or copied by an edit) get recorded before they change
+  private async ensureBaseline(recording: Recording): Promise<void> {
+    if (!recording.transcript) return;
+
+    const versions = await this.getVersions(recording.id);
+    if (versions.length === 0) {
+      await this.addVersion(
+        recording.id,
+        'machine',
+        recording.transcript,
+        recording.segments,
+        recording.date.getTime()
+      );
+    }
+  }
+
+  private async addVersion(
+    recordingId: string,
+    source: TranscriptVersionSource,
+    text: string,
+    segments?: TranscriptSegment[],
+    createdAt = Date.now()
+  ): Promise<void> {
+    await this.storage.saveTranscriptVersion({
+      id: `${recordingId}-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+      recordingId,
+      source,
+      text,
+      segments,
+      createdAt,
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { OpenAICompatibleProvider, OpenAIProvider } from './TranscriptionProviders';
+import type { TranscriptionProvider } from './TranscriptionProviders';
+
+export type TranscriptionProviderConfig = {
+  providerId: string;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  language?: string;
+  prompt?: string;
+}
+
+type ProviderFactory = (config: TranscriptionProviderConfig) => TranscriptionProvider;
+
+export class TranscriptionProviderRegistry {
+  private factories = new Map<string, ProviderFactory>();
+
+  register(providerId: string, factory: ProviderFactory): void {
+    this.factories.set(providerId, factory);
+  }
+
+  getProviderIds(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(config: TranscriptionProviderConfig): TranscriptionProvider {
+    const factory = this.factories.get(config.providerId);
+    if (!factory) {
+      throw new Error(`Unknown transcription provider: ${config.providerId}`);
+    }
+    return factory(config);
+  }
+}
+
+export const transcriptionProviderRegistry = new TranscriptionProviderRegistry();
+
+transcriptionProviderRegistry.register('openai', (config) => {
+  if (!config.apiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+  return new OpenAIProvider(config.apiKey, {
+    model: config.model,
+    language: config.language,
+    prompt: config.prompt,
+  });
+});
+
+transcriptionProviderRegistry.register('openai-compatible', (config) => {
+  if (!config.baseUrl) {
+    throw new Error('Transcription server URL not configured');
+  }
+  return new OpenAICompatibleProvider({
+    baseUrl: config.baseUrl,
+    apiKey: config.apiKey,
+    model: config.model,
+    language: config.language,
+    prompt: config.prompt,
+  });
+});
@@ -0,0 +1,142 @@
+import type { TranscriptionResult } from '../types/Recording';
+
+export interface TranscriptionProvider {
+  readonly id: string;
+  readonly name: string;
+  transcribe(audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptionResult>;
+  // Resolves when the server is reachable and accepts the credentials
+  testConnection(): Promise<void>;
+}
+
+export type OpenAICompatibleConfig = {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  apiKey?: string; // Optional for self-hosted servers without auth
+  model?: string;
+  language?: string; // ISO-639-1; omitted lets the model detect it
+  prompt?: string;
+}
+
+type WhisperSegment = {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Servers detect the format from the upload's file name, so it has to match the audio
+const FILE_EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/x-aac': 'aac',
+  'audio/flac': 'flac',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+function fileExtensionFor(mimeType: string): string {
+  // Drop parameters like ";codecs=opus"
+  const baseType = mimeType.split(';')[0].trim().toLowerCase();
+  return FILE_EXTENSIONS_BY_MIME_TYPE[baseType] || 'webm';
+}
+
+// Any server implementing the OpenAI /audio/transcriptions API
+// (OpenAI itself, whisper.cpp server, faster-whisper-server, LocalAI, ...)
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  readonly id: string = 'openai-compatible';
+  readonly name: string = 'OpenAI-compatible server';
+  protected baseUrl: string;
+  protected apiEndpoint: string;
+  protected apiKey?: string;
+  protected model: string;
+  protected language?: string;
+  protected prompt?: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiEndpoint = `${this.baseUrl}/audio/transcriptions`;
+    this.apiKey = config.apiKey;
+    this.model = config.model || 'whisper-1';
+    this.language = config.language;
+    this.prompt = config.prompt;
+  }
+
+  async transcribe(audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptionResult> {
+    // Create form data
+    const formData = new FormData();
+
+    formData.append('file', audioBlob, `recording.${fileExtensionFor(audioBlob.type)}`);
+    formData.append('model', this.model);
+    formData.append('response_format', 'verbose_json');
+    if (this.language) {
+      formData.append('language', this.language);
+    }
+    if (this.prompt) {
+      formData.append('prompt', this.prompt);
+    }
+
+    console.log(`Sending transcription request to ${this.name}...`);
+
+    const response = await fetch(this.apiEndpoint, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: formData,
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        `Transcription failed: ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    const data = await response.json();
+
+    return {
+      text: data.text,
+      segments: data.segments?.map((segment: WhisperSegment) => ({
+        text: segment.text,
+        start: segment.start,
+        end: segment.end,
+      })),
+    };
+  }
+
+  // /models is the cheapest authenticated call; servers without it still prove they are reachable
+  async testConnection(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('The server rejected the API key');
+    }
+    if (!response.ok && response.status !== 404) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `Server responded with ${response.status} ${response.statusText}`);
+    }
+  }
+
+  protected getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly id: string = 'openai';
+  readonly name: string = 'OpenAI';
+
+  constructor(apiKey: string, config: Omit<OpenAICompatibleConfig, 'baseUrl' | 'apiKey'> = {}) {
+    super({ ...config, baseUrl: 'https://api.openai.com/v1', apiKey });
+  }
+}
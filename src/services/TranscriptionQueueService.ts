@@ -0,0 +1,265 @@
+import { StorageService } from './StorageService';
+import { TranscriptionService } from './TranscriptionService';
+import type { TranscriptionProgress } from './TranscriptionService';
+import { transcriptionProviderRegistry } from './TranscriptionProviderRegistry';
+import { TranscriptHistoryService } from './TranscriptHistoryService';
+import { SettingsService } from './SettingsService';
+import { appLock } from './AppLockService';
+import type { TranscriptionJob } from '../types/TranscriptionJob';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Runs transcription jobs one at a time in the background. Jobs live in
+// IndexedDB so they survive reloads and are resumed by start().
+export class TranscriptionQueueService {
+  private storage: StorageService;
+  private history: TranscriptHistoryService;
+  private settings: SettingsService;
+  private listeners = new Set<() => void>();
+  private started = false;
+  private processing = false;
+  private retryTimer: number | null = null;
+  private activeJobId: string | null = null;
+  private abortController: AbortController | null = null;
+  private progress = new Map<string, TranscriptionProgress>();
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+    this.history = new TranscriptHistoryService(storage);
+    this.settings = new SettingsService(storage);
+  }
+
+  // Notified whenever a job or recording changes state
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    // A job still marked running was interrupted by a reload
+    const jobs = await this.storage.getAllTranscriptionJobs();
+    for (const job of jobs) {
+      if (job.status === 'running') {
+        await this.storage.saveTranscriptionJob({ ...job, status: 'pending', nextAttemptAt: Date.now() });
+      }
+    }
+
+    // Clear isTranscribing flags that no queued job will ever reset
+    const activeRecordingIds = new Set(
+      jobs.filter(job => job.status !== 'failed').map(job => job.recordingId)
+    );
+    const recordings = await this.storage.getAllRecordings();
+    for (const recording of recordings) {
+      if (recording.isTranscribing && !activeRecordingIds.has(recording.id)) {
+        await this.storage.updateRecording(recording.id, { isTranscribing: false });
+      }
+    }
+
+    window.addEventListener('online', () => this.process());
+    // Jobs wait while the app is locked and carry on once it is unlocked
+    appLock.subscribe(() => this.process());
+
+    this.notify();
+    this.process();
+  }
+
+  async enqueue(recordingId: string): Promise<void> {
+    const existing = await this.storage.getTranscriptionJobForRecording(recordingId);
+    if (existing && existing.status !== 'failed') return;
+
+    const job: TranscriptionJob = {
+      id: existing?.id || `${recordingId}-${Date.now()}`,
+      recordingId,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: existing?.createdAt || Date.now(),
+    };
+
+    await this.storage.saveTranscriptionJob(job);
+    await this.storage.updateRecording(recordingId, { isTranscribing: true });
+    this.notify();
+    this.process();
+  }
+
+  async retry(jobId: string): Promise<void> {
+    const job = await this.storage.getTranscriptionJob(jobId);
+    if (!job || job.status === 'running') return;
+
+    await this.storage.saveTranscriptionJob({
+      ...job,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: undefined,
+    });
+    await this.storage.updateRecording(job.recordingId, { isTranscribing: true });
+    this.notify();
+    this.process();
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const job = await this.storage.getTranscriptionJob(jobId);
+    if (!job) return;
+
+    if (this.activeJobId === jobId) {
+      this.abortController?.abort();
+    }
+
+    await this.storage.deleteTranscriptionJob(jobId);
+    await this.storage.updateRecording(job.recordingId, { isTranscribing: false });
+    this.progress.delete(job.recordingId);
+    this.notify();
+  }
+
+  async getJobs(): Promise<TranscriptionJob[]> {
+    return this.storage.getAllTranscriptionJobs();
+  }
+
+  getProgress(recordingId: string): TranscriptionProgress | undefined {
+    return this.progress.get(recordingId);
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      while (navigator.onLine && !appLock.isLocked()) {
+        const jobs = (await this.storage.getAllTranscriptionJobs())
+          .filter(job => job.status === 'pending')
+          .sort((a, b) => a.createdAt - b.createdAt);
+
+        if (jobs.length === 0) break;
+
+        const now = Date.now();
+        const due = jobs.find(job => job.nextAttemptAt <= now);
+
+        if (!due) {
+          // Wake up when the earliest backoff expires
+          const nextAttemptAt = Math.min(...jobs.map(job => job.nextAttemptAt));
+          this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.process();
+          }, nextAttemptAt - now);
+          break;
+        }
+
+        await this.runJob(due);
+      }
+    } catch (error) {
+      console.error('Transcription queue error:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(job: TranscriptionJob): Promise<void> {
+    // Claim the job before the first await so cancel() can always abort it
+    this.activeJobId = job.id;
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const { signal } = abortController;
+    // Let a running job finish before auto-lock takes the key away
+    const releaseLock = appLock.hold();
+
+    const runningJob: TranscriptionJob = { ...job, status: 'running', attempts: job.attempts + 1 };
+
+    try {
+      if (await this.isCancelled(job.id, signal)) return;
+      await this.storage.saveTranscriptionJob(runningJob);
+      this.notify();
+
+      const recording = await this.storage.getRecording(job.recordingId);
+      if (!recording) {
+        await this.storage.deleteTranscriptionJob(job.id);
+        return;
+      }
+
+      // Missing audio and configuration problems will not fix themselves, so don't retry
+      const audioBlob = await this.storage.getAudioBlob(job.recordingId);
+      if (!audioBlob) {
+        await this.failJob(runningJob, 'Audio data not available', signal);
+        return;
+      }
+
+      let transcriptionService: TranscriptionService;
+      try {
+        transcriptionService = new TranscriptionService(
+          transcriptionProviderRegistry.create(await this.settings.getTranscriptionProviderConfig())
+        );
+      } catch (error) {
+        await this.failJob(runningJob, (error as Error).message, signal);
+        return;
+      }
+
+      const result = await transcriptionService.transcribeAudio(
+        audioBlob,
+        (progress) => {
+          this.progress.set(job.recordingId, progress);
+          this.notify();
+        },
+        signal
+      );
+
+      // The job may have been cancelled while the request was in flight
+      if (await this.isCancelled(job.id, signal)) return;
+
+      await this.history.recordTranscription(job.recordingId, result);
+      await this.storage.updateRecording(job.recordingId, { isTranscribing: false });
+      await this.storage.deleteTranscriptionJob(job.id);
+    } catch (error) {
+      if (signal.aborted) return;
+
+      const message = (error as Error).message || 'Unknown error';
+      console.error('Transcription job failed:', error);
+
+      if (runningJob.attempts >= MAX_ATTEMPTS) {
+        await this.failJob(runningJob, message, signal);
+      } else if (!(await this.isCancelled(job.id, signal))) {
+        const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (runningJob.attempts - 1), MAX_RETRY_DELAY_MS);
+        await this.storage.saveTranscriptionJob({
+          ...runningJob,
+          status: 'pending',
+          lastError: message,
+          nextAttemptAt: Date.now() + delay,
+        });
+      }
+    } finally {
+      releaseLock();
+      this.activeJobId = null;
+      this.abortController = null;
+      this.progress.delete(job.recordingId);
+      this.notify();
+    }
+  }
+
+  private async failJob(job: TranscriptionJob, message: string, signal: AbortSignal): Promise<void> {
+    if (await this.isCancelled(job.id, signal)) return;
+    await this.storage.saveTranscriptionJob({ ...job, status: 'failed', lastError: message });
+    await this.storage.updateRecording(job.recordingId, { isTranscribing: false });
+  }
+
+  // Writing a cancelled job back would bring it back to life
+  private async isCancelled(jobId: string, signal: AbortSignal): Promise<boolean> {
+    return signal.aborted || !(await this.storage.getTranscriptionJob(jobId));
+  }
+}
+
+export const transcriptionQueue = new TranscriptionQueueService(new StorageService());
@@ -1,65 +1,150 @@
-import type { TranscriptionResult } from '../types/Recording';
+import type { TranscriptionResult, TranscriptSegment } from '../types/Recording';
+import type { TranscriptionProvider } from './TranscriptionProviders';
+import { AudioProcessingService } from './AudioProcessingService';
+
+export type TranscriptionProgress = {
+  chunk: number; // 1-based index of the chunk being transcribed
+  totalChunks: number;
+}
+
+// Whisper APIs reject uploads over 25 MB; keep headroom for multipart overhead
+const MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+// 16 kHz mono 16-bit WAV is ~1.9 MB per minute, so 10 minute chunks stay well under the cap
+const CHUNK_SAMPLE_RATE = 16000;
+const CHUNK_SECONDS = 600;
+const CHUNK_OVERLAP_SECONDS = 2;
+const SILENCE_SEARCH_SECONDS = 30;
+
+type ChunkPlan = {
+  start: number; // Sample position the chunk audio starts at (includes overlap)
+  boundary: number; // Sample position where this chunk's own content starts
+  end: number;
+}
 
 export class TranscriptionService {
-  private apiEndpoint = 'https://api.openai.com/v1/audio/transcriptions';
-  private apiKey: string;
+  private provider: TranscriptionProvider;
+  private audioProcessing = new AudioProcessingService();
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(provider: TranscriptionProvider) {
+    this.provider = provider;
   }
 
-  async transcribeAudio(audioBlob: Blob): Promise<TranscriptionResult> {
+  async transcribeAudio(
+    audioBlob: Blob,
+    onProgress?: (progress: TranscriptionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult> {
     try {
-      console.log('Preparing to transcribe audio blob');
-
-      // Create form data
-      const formData = new FormData();
-
-      // Determine file extension from blob type
-      let fileName = 'recording.webm';
-      if (audioBlob.type.includes('mp4')) {
-        fileName = 'recording.mp4';
-      } else if (audioBlob.type.includes('ogg')) {
-        fileName = 'recording.ogg';
-      } else if (audioBlob.type.includes('wav')) {
-        fileName = 'recording.wav';
+      console.log(`Preparing to transcribe audio blob with ${this.provider.name}`);
+
+      let result: TranscriptionResult;
+      if (audioBlob.size > MAX_UPLOAD_BYTES) {
+        result = await this.transcribeInChunks(audioBlob, onProgress, signal);
+      } else {
+        onProgress?.({ chunk: 1, totalChunks: 1 });
+        result = await this.provider.transcribe(audioBlob, signal);
       }
 
-      formData.append('file', audioBlob, fileName);
-      formData.append('model', 'whisper-1');
-      formData.append('response_format', 'verbose_json');
+      console.log('Transcription successful');
+      return result;
+    } catch (error) {
+      console.error('Transcription error:', error);
+      throw error;
+    }
+  }
 
-      console.log('Sending transcription request to OpenAI...');
+  private async transcribeInChunks(
+    audioBlob: Blob,
+    onProgress?: (progress: TranscriptionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult> {
+    const samples = await this.audioProcessing.decodeToMono(audioBlob, CHUNK_SAMPLE_RATE);
+    const chunks = this.planChunks(samples);
+    console.log(`Audio exceeds upload limit, transcribing in ${chunks.length} chunks`);
 
-      const response = await fetch(this.apiEndpoint, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: formData,
-      });
+    const texts: string[] = [];
+    const segments: TranscriptSegment[] = [];
+    let hasSegments = true;
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `Transcription failed: ${errorData.error?.message || response.statusText}`
-        );
+    for (let i = 0; i < chunks.length; i++) {
+      signal?.throwIfAborted();
+      const chunk = chunks[i];
+      onProgress?.({ chunk: i + 1, totalChunks: chunks.length });
+
+      // Without segments the overlap cannot be cut out of the text, so once the
+      // provider returns none, the remaining chunks are sent without it
+      const start = hasSegments ? chunk.start : chunk.boundary;
+      const wav = this.audioProcessing.encodeWav(
+        samples.subarray(start, chunk.end),
+        CHUNK_SAMPLE_RATE
+      );
+      const result = await this.provider.transcribe(wav, signal);
+
+      if (!result.segments) {
+        hasSegments = false;
+        texts.push(result.text.trim());
+        continue;
       }
 
-      const data = await response.json();
-      console.log('Transcription successful');
+      const offset = start / CHUNK_SAMPLE_RATE;
+      const boundary = chunk.boundary / CHUNK_SAMPLE_RATE;
+      const kept: TranscriptSegment[] = [];
 
-      return {
-        text: data.text,
-        segments: data.segments?.map((segment: any) => ({
+      for (const segment of result.segments) {
+        const shifted = {
           text: segment.text,
-          start: segment.start,
-          end: segment.end,
-        })),
+          start: segment.start + offset,
+          end: segment.end + offset,
+        };
+        // Segments centred in the overlap were already covered by the previous chunk
+        if (i > 0 && (shifted.start + shifted.end) / 2 < boundary) continue;
+        kept.push(shifted);
+      }
+
+      segments.push(...kept);
+      texts.push(kept.map(segment => segment.text.trim()).join(' '));
+    }
+
+    if (hasSegments) {
+      return {
+        text: segments.map(segment => segment.text.trim()).join(' '),
+        segments,
       };
-    } catch (error) {
-      console.error('Transcription error:', error);
-      throw error;
     }
+
+    return { text: texts.filter(text => text).join(' ') };
+  }
+
+  // Split at the quietest point near each chunk limit so words are not cut in half
+  private planChunks(samples: Float32Array): ChunkPlan[] {
+    const chunkLength = CHUNK_SECONDS * CHUNK_SAMPLE_RATE;
+    const overlap = CHUNK_OVERLAP_SECONDS * CHUNK_SAMPLE_RATE;
+    const searchWindow = SILENCE_SEARCH_SECONDS * CHUNK_SAMPLE_RATE;
+
+    const chunks: ChunkPlan[] = [];
+    let boundary = 0;
+
+    while (boundary < samples.length) {
+      let end = boundary + chunkLength;
+      if (end >= samples.length) {
+        end = samples.length;
+      } else {
+        end = this.audioProcessing.findSilenceBoundary(
+          samples,
+          CHUNK_SAMPLE_RATE,
+          end - searchWindow,
+          end
+        );
+      }
+
+      chunks.push({
+        start: Math.max(0, boundary - overlap),
+        boundary,
+        end,
+      });
+      boundary = end;
+    }
+
+    return chunks;
   }
 }
@@ -0,0 +1,46 @@
+import type { AudioLevel } from './AudioRecorderService';
+import { SILENCE_RMS_THRESHOLD } from './AudioProcessingService';
+
+type LevelSubscriber = (listener: (level: AudioLevel) => void) => () => void;
+
+// Watches a live level stream and fires once after a continuous stretch of silence
+export class VoiceActivityDetector {
+  private silenceMs: number;
+  private silentSince: number | null = null;
+  private fired = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(silenceSeconds: number) {
+    this.silenceMs = silenceSeconds * 1000;
+  }
+
+  start(subscribe: LevelSubscriber, onSilence: () => void, isPaused: () => boolean = () => false): void {
+    this.stop();
+    this.reset();
+
+    this.unsubscribe = subscribe((level) => {
+      // Time spent paused shouldn't count towards the silence period
+      if (isPaused() || level.rms >= SILENCE_RMS_THRESHOLD) {
+        this.silentSince = null;
+        return;
+      }
+
+      const now = Date.now();
+      this.silentSince = this.silentSince ?? now;
+      if (!this.fired && now - this.silentSince >= this.silenceMs) {
+        this.fired = true;
+        onSilence();
+      }
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private reset(): void {
+    this.silentSince = null;
+    this.fired = false;
+  }
+}
@@ -0,0 +1,74 @@
+/// <reference lib="webworker" />
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { NetworkOnly } from 'workbox-strategies';
+import { ShareInboxService, SHARED_FILES_MESSAGE } from './services/ShareInboxService';
+import type { SharedFilesMessage, SharedFilesReply } from './services/ShareInboxService';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Matches share_target in vite.config.ts
+const SHARE_TARGET_PATH = '/share-target';
+const SHARE_TARGET_FILES_PARAM = 'audio';
+// Windows of an older version, or frozen in the background, never answer
+const HANDOVER_ANSWER_TIMEOUT_MS = 3000;
+
+const shareInbox = new ShareInboxService();
+
+// registerType 'autoUpdate': take over open pages as soon as a new version is installed
+self.skipWaiting();
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+registerRoute(({ url }) => url.origin === 'https://api.openai.com', new NetworkOnly());
+
+// Resolves true once the window has taken over importing the files
+function offerToWindow(client: WindowClient, keys: string[]): Promise<boolean> {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => resolve(false), HANDOVER_ANSWER_TIMEOUT_MS);
+
+    channel.port1.onmessage = ({ data }: MessageEvent<SharedFilesReply>) => {
+      clearTimeout(timeout);
+      resolve(data === 'accepted');
+    };
+
+    const message: SharedFilesMessage = { type: SHARED_FILES_MESSAGE, keys };
+    client.postMessage(message, [channel.port2]);
+  });
+}
+
+// Only a window holding the key can encrypt, so try open windows first
+async function handOverToWindow(keys: string[]): Promise<void> {
+  for (const client of await self.clients.matchAll({ type: 'window' })) {
+    if (await offerToWindow(client, keys)) return;
+  }
+}
+
+// Audio shared from other apps arrives as a multipart POST. The files go to the
+// inbox first; an open, unlocked window imports them right away, otherwise they
+// wait there until the app is unlocked. Either way the library is opened.
+registerRoute(
+  ({ url }) => url.pathname === SHARE_TARGET_PATH,
+  async ({ request }) => {
+    try {
+      const formData = await request.formData();
+      const files = formData
+        .getAll(SHARE_TARGET_FILES_PARAM)
+        .filter((value): value is File => value instanceof File);
+      if (files.length > 0) {
+        await handOverToWindow(await shareInbox.add(files));
+      }
+    } catch (error) {
+      console.error('Failed to receive shared files:', error);
+    }
+    return Response.redirect('/recordings', 303);
+  },
+  'POST'
+);
+
+// Deep links like /recordings/:id are client-side routes; serve the app shell for them offline
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
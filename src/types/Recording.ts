@@ -1,21 +1,40 @@
 export type Recording = {
   id: string;
-  uri: string; // Blob URL for web (instead of file URI)
-  audioBlob?: Blob; // Runtime Blob (not stored in IndexedDB)
-  audioData?: ArrayBuffer; // Stored in IndexedDB (for persistence)
+  audioBlob?: Blob; // Only set when saving; audio bytes live in the separate 'audio' store
   mimeType?: string; // Audio mime type (for reconstructing Blob)
   duration: number;
   date: Date;
   transcript?: string;
+  segments?: TranscriptSegment[]; // Timestamped transcript, when the provider returns it
   isTranscribing?: boolean;
   title?: string;
+  folder?: string;
+  tags?: string[];
+  searchTokens?: string[]; // Maintained by StorageService for full-text search
+  silentRanges?: TimeRange[]; // Long pauses, detected lazily for skip-silence playback
+  summary?: RecordingSummary;
+}
+
+export type RecordingSummary = {
+  overview: string;
+  keyPoints: string[];
+  actionItems: string[];
+  model: string;
+  generatedAt: number; // Epoch ms
+}
+
+export type TimeRange = {
+  start: number; // Seconds
+  end: number;
+}
+
+export type TranscriptSegment = {
+  text: string;
+  start: number; // Seconds from the beginning of the recording
+  end: number;
 }
 
 export type TranscriptionResult = {
   text: string;
-  segments?: Array<{
-    text: string;
-    start: number;
-    end: number;
-  }>;
+  segments?: TranscriptSegment[];
 }
@@ -0,0 +1,16 @@
+// An in-progress recording whose chunks are persisted as they arrive, so it
+// can be recovered if the tab crashes or is closed before stopRecording
+export type RecordingSession = {
+  id: string;
+  startedAt: number; // Epoch ms
+  updatedAt: number; // Epoch ms of the last persisted chunk
+  mimeType: string;
+  duration: number; // Seconds recorded so far
+}
+
+export type RecordingSessionChunk = {
+  sessionId: string;
+  index: number;
+  data: ArrayBuffer;
+  iv?: Uint8Array<ArrayBuffer>; // Set when data is encrypted
+}
@@ -0,0 +1,46 @@
+export type MicrophoneSettings = {
+  deviceId?: string; // Preferred input; undefined uses the system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export type SilenceSettings = {
+  autoStop: boolean; // Stop recording after a stretch of silence
+  autoStopAfterSeconds: number;
+  trimSilence: boolean; // Cut leading/trailing silence before saving
+  skipSilenceOnPlayback: boolean;
+}
+
+export const DEFAULT_SILENCE_SETTINGS: SilenceSettings = {
+  autoStop: false,
+  autoStopAfterSeconds: 30,
+  trimSilence: false,
+  skipSilenceOnPlayback: false,
+};
+
+export type ApiSettings = {
+  providerId: string; // 'openai' or 'openai-compatible'
+  apiKey: string;
+  baseUrl: string; // Only used by 'openai-compatible'
+  model: string; // Empty uses the provider's default
+  language: string; // ISO-639-1 code; empty lets the model detect it
+  prompt: string; // Names and vocabulary to help the transcription
+  summaryBaseUrl: string; // Empty uses the transcription endpoint
+  summaryApiKey: string; // Empty reuses the transcription key, but only on the transcription server
+  summaryModel: string;
+}
+
+export type LockSettings = {
+  autoLockMinutes: number; // Lock after this long without user activity; 0 never locks
+}
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  autoLockMinutes: 5,
+};
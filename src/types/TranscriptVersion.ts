@@ -0,0 +1,13 @@
+import type { TranscriptSegment } from './Recording';
+
+// machine: from a transcription run; manual: edited by the user; revert: restored from an earlier version
+export type TranscriptVersionSource = 'machine' | 'manual' | 'revert';
+
+export type TranscriptVersion = {
+  id: string;
+  recordingId: string;
+  source: TranscriptVersionSource;
+  text: string;
+  segments?: TranscriptSegment[];
+  createdAt: number; // Epoch ms
+}
@@ -0,0 +1,11 @@
+export type TranscriptionJobStatus = 'pending' | 'running' | 'failed';
+
+export type TranscriptionJob = {
+  id: string;
+  recordingId: string;
+  status: TranscriptionJobStatus;
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms, for exponential backoff between retries
+  lastError?: string;
+  createdAt: number;
+}
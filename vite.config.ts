@@ -7,6 +7,10 @@ export default defineConfig({
   plugins: [
     react(),
     VitePWA({
+      // A custom service worker (src/sw.ts) so shared files can be received
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
       registerType: 'autoUpdate',
       manifest: {
         name: 'VoiceTranscriber',
@@ -25,19 +29,38 @@ export default defineConfig({
             type: 'image/svg+xml',
             purpose: 'any maskable'
           }
-        ]
-      },
-      workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
-        runtimeCaching: [
+        ],
+        // Lets other apps (e.g. a messenger's voice notes) share audio with us; handled in src/sw.ts
+        share_target: {
+          action: '/share-target',
+          method: 'POST',
+          enctype: 'multipart/form-data',
+          params: {
+            title: 'title',
+            text: 'text',
+            files: [
+              {
+                name: 'audio',
+                accept: ['audio/*', '.mp3', '.m4a', '.aac', '.wav', '.ogg', '.oga', '.opus', '.webm'],
+              },
+            ],
+          },
+        },
+        // "Open with" for audio files on desktop; delivered through window.launchQueue
+        file_handlers: [
           {
-            urlPattern: /^https:\/\/api\.openai\.com\/.*/i,
-            handler: 'NetworkOnly',
-            options: {
-              cacheName: 'openai-api-cache',
+            action: '/recordings',
+            accept: {
+              'audio/*': ['.mp3', '.m4a', '.aac', '.wav', '.ogg', '.oga', '.opus', '.webm'],
             },
           },
         ],
+        launch_handler: {
+          client_mode: 'focus-existing',
+        },
+      },
+      injectManifest: {
+        globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
       },
     }),
   ],